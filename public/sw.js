@@ -0,0 +1,69 @@
+// Precaches the app shell and the bundles it starts with so the player still opens without a
+// connection; chunks loaded on demand (hls.js) are cached the first time they're fetched.
+// The API and the audio streams always go to the network; the last now-playing and history
+// snapshots live in localStorage, where the player shows them on its offline screen.
+
+// Filled in by the build (see serviceWorkerManifest in vite.config.ts). Every deploy changes the
+// version, which installs a new worker and drops the previous build's cache.
+const BUILD = /* build manifest */ { version: 'dev', assets: [] };
+
+const CACHE = `radio-shell-${BUILD.version}`;
+const OFFLINE_PAGE = '/offline.html';
+const SHELL = ['/', '/manifest.webmanifest', '/favicon.svg', ...BUILD.assets.map((asset) => `/${asset}`)];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll([...SHELL, OFFLINE_PAGE]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The cached page only works when every bundle it references is cached with it
+const shellIsComplete = () =>
+  caches
+    .open(CACHE)
+    .then((cache) => Promise.all(SHELL.map((url) => cache.match(url))))
+    .then((responses) => responses.every(Boolean));
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so deploys show up right away. Offline, the precached shell of this build
+  // (never a newer page whose bundles this worker doesn't have), or a static page when it's incomplete.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() =>
+        shellIsComplete().then((complete) => caches.match(complete ? '/' : OFFLINE_PAGE))
+      )
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy never goes stale
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
@@ -1,121 +1,417 @@
 import express from "express";
+import dotenv from "dotenv";
+import crypto from "crypto";
 import { createServer as createViteServer } from "vite";
-import fetch from "node-fetch";
 import path from "path";
 import { fileURLToPath } from "url";
-import https from "https";
+import { loadStations, findStation } from "./server/stations.ts";
+import { createNowPlayingPoller, offlineSnapshot } from "./server/poller.ts";
+import { getHistory, recordPlay } from "./server/history.ts";
+import { resolveCover } from "./server/covers.ts";
+import { blacklistLyrics, findLyrics, getLyricsStats, getStoredLyrics, listLyricsOverrides, lyricsUseAi, overrideLyrics, resetLyrics } from "./server/lyrics.ts";
+import { DEFAULT_LOCALE, generateInsight, generateLyrics, generateTranslation, getCached, isAiConfigured, isLocale, localizedKey, textKey } from "./server/ai.ts";
+import { trackKey } from "./src/lib/trackKey.ts";
+import { createRateLimiter, type RateLimiter } from "./server/rateLimit.ts";
+import { createStreamRelay, parseRelayMode } from "./server/relay.ts";
+import { castVote, CHART_PERIODS, getCharts, getVotes } from "./server/votes.ts";
+import type { ChartPeriod, NowPlaying, Station } from "./src/types.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Create an HTTPS agent that ignores certificate errors (common in radio streaming servers)
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: false,
-});
+// Server-only secrets such as GEMINI_API_KEY live in .env.local during development
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+// Accepts either milliseconds since epoch or any date string Date.parse understands
+const parseTime = (value: unknown): number | undefined => {
+  if (typeof value !== "string" || !value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+};
+
+// Answers 429 and returns false when the client's IP is over the limit
+const checkRateLimit = (limiter: RateLimiter, req: express.Request, res: express.Response): boolean => {
+  const { allowed, retryAfterMs } = limiter.consume(req.ip || "unknown");
+  if (!allowed) {
+    res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+    res.status(429).json({ error: "Too many requests" });
+  }
+  return allowed;
+};
+
+// Anonymous id the player generates once per browser, sent as X-Device-Id
+const getDeviceId = (req: express.Request): string | undefined => {
+  const device = req.get("X-Device-Id");
+  return device && /^[\w-]{8,128}$/.test(device) ? device : undefined;
+};
+
+// Staff-only routes require "Authorization: Bearer <ADMIN_TOKEN>"; they are disabled when ADMIN_TOKEN is unset
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: "Admin API is not configured" });
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.get("Authorization") || "");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  next();
+};
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
+  // Deployed behind a load balancer, so take the client IP from X-Forwarded-For for rate limiting
+  app.set("trust proxy", 1);
+  const stations = loadStations();
 
-  // API Proxy for Radio Metadata to bypass CORS and handle certificate issues
-  app.get("/api/radio-stats", async (req, res) => {
-    const endpoints = [
-      "https://streaming.fox.srv.br:2020/json/stream/8150",
-      "https://streaming.fox.srv.br:8150/stats?json=1",
-      "https://streaming.fox.srv.br:8150/status-json.xsl",
-      "http://streaming.fox.srv.br:8150/stats?json=1"
-    ];
-
-    let lastError = null;
+  // Tracks no provider has a cover for get the station logo, like /api/cover answers
+  const withCover = async (nowPlaying: NowPlaying, station: Station): Promise<NowPlaying> => {
+    const placeholder = station.logo ?? "/favicon.svg";
+    try {
+      const { url } = await resolveCover(nowPlaying.artist, nowPlaying.title, nowPlaying.cover);
+      return { ...nowPlaying, cover: url ?? placeholder };
+    } catch (error) {
+      console.error("Cover resolution failed:", error instanceof Error ? error.message : String(error));
+      return { ...nowPlaying, cover: nowPlaying.cover ?? placeholder };
+    }
+  };
 
-    for (const url of endpoints) {
+  const poller = createNowPlayingPoller(stations, Number(process.env.POLL_INTERVAL_MS) || 10000, withCover);
+  for (const station of stations) {
+    poller.subscribe(station.id, (nowPlaying) => {
       try {
-        console.log(`Attempting to fetch metadata from: ${url}`);
-        const response = await fetch(url, {
-          headers: {
-            "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-            "Accept": "application/json, text/plain, */*"
-          },
-          agent: url.startsWith("https") ? httpsAgent : undefined,
-          timeout: 4000
-        });
-
-        if (response.ok) {
-          const contentType = response.headers.get("content-type");
-          if (contentType && contentType.includes("application/json")) {
-            const data = await response.json();
-            
-            // Normalize the new endpoint format to be compatible with existing frontend logic
-            if (data.nowplaying && !data.songtitle) {
-              data.songtitle = data.nowplaying;
-            }
-            
-            return res.json(data);
-          } else {
-            const text = await response.text();
-            try {
-              const data = JSON.parse(text);
-              if (data.nowplaying && !data.songtitle) {
-                data.songtitle = data.nowplaying;
-              }
-              return res.json(data);
-            } catch (e) {
-              console.warn(`Endpoint ${url} returned non-JSON content:`, text.substring(0, 100));
-            }
-          }
-        } else {
-          console.warn(`Endpoint ${url} returned status: ${response.status}`);
-        }
+        recordPlay(nowPlaying);
       } catch (error) {
-        console.error(`Error fetching from ${url}:`, error instanceof Error ? error.message : String(error));
-        lastError = error;
+        console.error("Failed to record play:", error instanceof Error ? error.message : String(error));
       }
+    });
+  }
+  poller.start();
+
+  const relay = createStreamRelay(parseRelayMode(process.env.STREAM_RELAY), Number(process.env.RELAY_MAX_LISTENERS) || 100);
+
+  // Station catalog used by the player's station switcher
+  app.get("/api/stations", (req, res) => {
+    res.json(stations.map(relay.withRelay));
+  });
+
+  // Station audio relayed over our own origin (see STREAM_RELAY)
+  app.get("/api/stream", (req, res) => {
+    if (relay.mode === "off") {
+      return res.status(404).json({ error: "Stream relay is disabled" });
+    }
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
     }
+    relay.handle(station, req, res).catch((error) => {
+      console.error("Stream relay error:", error instanceof Error ? error.message : String(error));
+      if (!res.headersSent) res.status(502).json({ error: "Stream unavailable" });
+      else res.end();
+    });
+  });
 
-    // If all endpoints fail, try the legacy 7.html format which is very common
-    try {
-      const url = "https://streaming.fox.srv.br:8150/7.html";
-      const response = await fetch(url, {
-        headers: { "User-Agent": "Mozilla/5.0" },
-        agent: httpsAgent,
-        timeout: 3000
-      });
-      if (response.ok) {
-        const text = await response.text();
-        // Format: listeners,1,max,99,unique,128,Artist - Song
-        const parts = text.split(",");
-        if (parts.length >= 7) {
-          return res.json({ songtitle: parts[6] });
-        }
-      }
-    } catch (e) {
-      console.error("Legacy 7.html fetch failed");
+  // API Proxy for Radio Metadata to bypass CORS and handle certificate issues.
+  // Responds with the normalized NowPlaying shape regardless of the upstream format.
+  app.get("/api/radio-stats", (req, res) => {
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
     }
 
-    res.status(500).json({ 
-      error: "Failed to fetch metadata from all sources", 
-      details: lastError instanceof Error ? lastError.message : String(lastError) 
+    // Served from the poller only, so this route never waits on (or multiplies requests to) the upstream.
+    // Until the first poll finishes the station is reported offline.
+    res.json(poller.current(station.id) ?? offlineSnapshot(station));
+  });
+
+  // Server-Sent Events feed pushing the current track and every track change to the player
+  app.get("/api/now-playing/stream", (req, res) => {
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    const send = (nowPlaying: unknown) => res.write(`data: ${JSON.stringify(nowPlaying)}\n\n`);
+
+    const cached = poller.current(station.id);
+    if (cached) send(cached);
+
+    const unsubscribe = poller.subscribe(station.id, send);
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
     });
   });
 
-  // Proxy for Lyrics to bypass CORS
+  // Play history recorded by the poller, most recent first. Page back with the returned `next` as `to`.
+  app.get("/api/history", (req, res) => {
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
+    }
+
+    try {
+      res.json(getHistory(station.id, {
+        from: parseTime(req.query.from),
+        to: parseTime(req.query.to),
+        limit: Number(req.query.limit) || undefined
+      }));
+    } catch (error) {
+      console.error("History query error:", error);
+      res.status(500).json({ error: "Failed to load history" });
+    }
+  });
+
+  // Cover art lookup with caching; falls back to the station logo when no provider has the track
+  app.get("/api/cover", async (req, res) => {
+    const { artist, title } = req.query;
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    const station = findStation(stations, req.query.station) ?? stations[0];
+
+    try {
+      const cover = await resolveCover(artist, title);
+      res.set("Cache-Control", "public, max-age=3600");
+      res.json(cover.url ? cover : { url: station.logo ?? "/favicon.svg", provider: "placeholder" });
+    } catch (error) {
+      console.error("Cover lookup error:", error);
+      res.status(500).json({ error: "Failed to resolve cover" });
+    }
+  });
+
+  // Lyrics through the cached provider chain (LYRICS_PROVIDERS); includes time-coded lines when available.
+  // When the chain ends with Gemini, uncached lookups are rate-limited like the other AI routes.
+  const lyricsLookupLimiter = createRateLimiter(20, 5 * 60 * 1000);
+
   app.get("/api/lyrics", async (req, res) => {
     const { artist, title } = req.query;
-    if (!artist || !title) {
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
       return res.status(400).json({ error: "Artist and title are required" });
     }
+    if (lyricsUseAi() && getStoredLyrics(artist, title) === undefined) {
+      if (!checkRateLimit(lyricsLookupLimiter, req, res)) return;
+    }
 
     try {
-      const url = `https://api.lyrics.ovh/v1/${encodeURIComponent(artist as string)}/${encodeURIComponent(title as string)}`;
-      const response = await fetch(url, { timeout: 5000 });
-      const data = await response.json();
-      res.json(data);
+      const result = await findLyrics(artist, title);
+      if (!result) {
+        return res.status(404).json({ error: "Lyrics not found" });
+      }
+      res.json(result);
     } catch (error) {
-      console.error("Lyrics proxy error:", error);
+      console.error("Lyrics proxy error:", error instanceof Error ? error.message : String(error));
       res.status(500).json({ error: "Failed to fetch lyrics" });
     }
   });
 
+  // Listener votes per track and the charts built from them
+  const voteLimiter = createRateLimiter(30, 5 * 60 * 1000);
+
+  app.get("/api/votes", (req, res) => {
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
+    }
+    const { artist, title } = req.query;
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+
+    try {
+      res.json(getVotes(station.id, artist, title, getDeviceId(req)));
+    } catch (error) {
+      console.error("Votes query error:", error);
+      res.status(500).json({ error: "Failed to load votes" });
+    }
+  });
+
+  app.post("/api/votes", express.json({ limit: "16kb" }), (req, res) => {
+    const { station: stationId, artist, title, vote } = req.body ?? {};
+    const station = findStation(stations, stationId);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
+    }
+    if (typeof artist !== "string" || typeof title !== "string" || !artist.trim() || !title.trim()) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    if (vote !== 1 && vote !== -1 && vote !== 0) {
+      return res.status(400).json({ error: "Vote must be 1, -1 or 0" });
+    }
+    const device = getDeviceId(req);
+    if (!device) {
+      return res.status(400).json({ error: "X-Device-Id header is required" });
+    }
+    if (!checkRateLimit(voteLimiter, req, res)) return;
+
+    try {
+      res.json(castVote(station.id, artist, title, device, vote));
+    } catch (error) {
+      console.error("Vote error:", error);
+      res.status(500).json({ error: "Failed to record vote" });
+    }
+  });
+
+  app.get("/api/charts", (req, res) => {
+    const station = findStation(stations, req.query.station);
+    if (!station) {
+      return res.status(404).json({ error: "Unknown station" });
+    }
+    const period = req.query.period ?? "week";
+    if (typeof period !== "string" || !Object.prototype.hasOwnProperty.call(CHART_PERIODS, period)) {
+      return res.status(400).json({ error: "Period must be day, week or month" });
+    }
+
+    try {
+      res.set("Cache-Control", "public, max-age=60");
+      res.json({ period, items: getCharts(station.id, period as ChartPeriod, Number(req.query.limit) || undefined) });
+    } catch (error) {
+      console.error("Charts query error:", error);
+      res.status(500).json({ error: "Failed to load charts" });
+    }
+  });
+
+  // Staff tools to fix wrong lyrics: override or blacklist a track, and inspect the cache
+  app.use("/api/admin", express.json({ limit: "256kb" }), requireAdmin);
+
+  app.get("/api/admin/relay", (req, res) => {
+    res.json(relay.stats());
+  });
+
+  app.get("/api/admin/lyrics", (req, res) => {
+    res.json(listLyricsOverrides());
+  });
+
+  app.get("/api/admin/lyrics/stats", (req, res) => {
+    res.json(getLyricsStats());
+  });
+
+  app.put("/api/admin/lyrics", (req, res) => {
+    const { artist, title, lyrics, lrc } = req.body ?? {};
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    try {
+      overrideLyrics(artist, title, typeof lyrics === "string" ? lyrics : undefined, typeof lrc === "string" ? lrc : undefined);
+      res.status(204).end();
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/api/admin/lyrics/blacklist", (req, res) => {
+    const { artist, title } = req.body ?? {};
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    blacklistLyrics(artist, title);
+    res.status(204).end();
+  });
+
+  app.delete("/api/admin/lyrics", (req, res) => {
+    const { artist, title } = req.query;
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    res.json({ removed: resetLyrics(artist, title) });
+  });
+
+  // Gemini features. The API key stays on the server; only uncached generations count towards the rate limits.
+  const insightLimiter = createRateLimiter(10, 5 * 60 * 1000);
+  const lyricsLimiter = createRateLimiter(10, 5 * 60 * 1000);
+  const translationLimiter = createRateLimiter(5, 5 * 60 * 1000);
+
+  app.get("/api/ai/status", (req, res) => {
+    res.json({ enabled: isAiConfigured() });
+  });
+
+  app.use("/api/ai", express.json({ limit: "64kb" }), (req, res, next) => {
+    if (!isAiConfigured()) {
+      return res.status(503).json({ error: "AI is not configured" });
+    }
+    next();
+  });
+
+  app.post("/api/ai/insight", async (req, res) => {
+    const { artist, title, fresh, locale = DEFAULT_LOCALE } = req.body ?? {};
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+    if (!isLocale(locale)) {
+      return res.status(400).json({ error: "Unsupported locale" });
+    }
+
+    const cached = fresh ? undefined : getCached("insight", localizedKey(trackKey(artist, title), locale));
+    if (cached) return res.json({ insight: cached });
+    if (!checkRateLimit(insightLimiter, req, res)) return;
+
+    try {
+      const insight = await generateInsight(artist, title, locale);
+      if (!insight) return res.status(404).json({ error: "No insight found" });
+      res.json({ insight });
+    } catch (error) {
+      console.error("Gemini insight error:", error);
+      res.status(502).json({ error: "Failed to generate insight" });
+    }
+  });
+
+  app.post("/api/ai/lyrics", async (req, res) => {
+    const { artist, title } = req.body ?? {};
+    if (typeof artist !== "string" || typeof title !== "string" || !artist || !title) {
+      return res.status(400).json({ error: "Artist and title are required" });
+    }
+
+    let lyrics = getCached("lyrics", trackKey(artist, title));
+    if (lyrics === undefined) {
+      if (!checkRateLimit(lyricsLimiter, req, res)) return;
+      try {
+        lyrics = await generateLyrics(artist, title);
+      } catch (error) {
+        console.error("Gemini lyrics error:", error);
+        return res.status(502).json({ error: "Failed to generate lyrics" });
+      }
+    }
+
+    if (!lyrics) return res.status(404).json({ error: "Lyrics not found" });
+    res.json({ lyrics });
+  });
+
+  app.post("/api/ai/translate", async (req, res) => {
+    const { lyrics, locale = DEFAULT_LOCALE } = req.body ?? {};
+    if (typeof lyrics !== "string" || !lyrics.trim()) {
+      return res.status(400).json({ error: "Lyrics are required" });
+    }
+    if (!isLocale(locale)) {
+      return res.status(400).json({ error: "Unsupported locale" });
+    }
+
+    const cached = getCached("translation", localizedKey(textKey(lyrics), locale));
+    if (cached) return res.json({ translation: cached });
+    if (!checkRateLimit(translationLimiter, req, res)) return;
+
+    try {
+      const translation = await generateTranslation(lyrics, locale);
+      if (!translation) return res.status(502).json({ error: "Empty translation" });
+      res.json({ translation });
+    } catch (error) {
+      console.error("Gemini translation error:", error);
+      res.status(502).json({ error: "Failed to translate lyrics" });
+    }
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -0,0 +1,96 @@
+import { GoogleGenAI } from "@google/genai";
+import crypto from "crypto";
+import type { Locale } from "../src/types.ts";
+import { trackKey } from "../src/lib/trackKey.ts";
+import { getDb } from "./db.ts";
+
+const MODEL = "gemini-3-flash-preview";
+
+export type AiKind = "insight" | "lyrics" | "translation";
+
+const PROMPTS: Record<Locale, { insight: (song: string) => string; translation: (lyrics: string) => string }> = {
+  "pt-BR": {
+    insight: (song) =>
+      `Me conte uma curiosidade rápida, inédita e interessante (máximo 2 frases) sobre a música ou artista: "${song}". Tente não repetir fatos óbvios. Seja descontraído e use emojis.`,
+    translation: (lyrics) =>
+      `Traduza a seguinte letra de música para o português brasileiro. Mantenha a formatação original (quebras de linha). Se a letra já estiver em português, apenas retorne a letra original. Letra:\n\n${lyrics}`
+  },
+  en: {
+    insight: (song) =>
+      `Tell me a quick, little-known and interesting fact (2 sentences at most) about the song or artist: "${song}". Try not to repeat obvious facts. Keep it casual and use emojis.`,
+    translation: (lyrics) =>
+      `Translate the following song lyrics into English. Keep the original formatting (line breaks). If the lyrics are already in English, just return the original lyrics. Lyrics:\n\n${lyrics}`
+  },
+  es: {
+    insight: (song) =>
+      `Cuéntame una curiosidad rápida, poco conocida e interesante (máximo 2 frases) sobre la canción o el artista: "${song}". Intenta no repetir datos obvios. Sé desenfadado y usa emojis.`,
+    translation: (lyrics) =>
+      `Traduce la siguiente letra de canción al español. Mantén el formato original (saltos de línea). Si la letra ya está en español, devuelve la letra original. Letra:\n\n${lyrics}`
+  }
+};
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(PROMPTS, value);
+
+let client: GoogleGenAI | null | undefined;
+
+function getClient(): GoogleGenAI | null {
+  if (client === undefined) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    // The placeholder from .env.example counts as not configured
+    client = apiKey && apiKey !== "MY_GEMINI_API_KEY" ? new GoogleGenAI({ apiKey }) : null;
+  }
+  return client;
+}
+
+export const isAiConfigured = () => getClient() !== null;
+
+async function generate(prompt: string): Promise<string> {
+  const ai = getClient();
+  if (!ai) throw new Error("AI is not configured");
+  const response = await ai.models.generateContent({ model: MODEL, contents: prompt });
+  return response.text?.trim() || "";
+}
+
+function store(kind: AiKind, key: string, response: string) {
+  getDb()
+    .prepare("INSERT INTO ai_responses (kind, key, response, created_at) VALUES (?, ?, ?, ?)")
+    .run(kind, key, response, Date.now());
+}
+
+export const textKey = (text: string) => crypto.createHash("sha1").update(text).digest("hex");
+
+// Responses cached before locales existed are Brazilian Portuguese, so that locale keeps the bare key
+export const localizedKey = (key: string, locale: Locale) => (locale === DEFAULT_LOCALE ? key : `${key}|${locale}`);
+
+// Returns a cached response, picking one at random when several insights were generated for a track
+export function getCached(kind: AiKind, key: string): string | undefined {
+  const row = getDb()
+    .prepare("SELECT response FROM ai_responses WHERE kind = ? AND key = ? ORDER BY RANDOM() LIMIT 1")
+    .get(kind, key) as { response: string } | undefined;
+  return row?.response;
+}
+
+export async function generateInsight(artist: string, title: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
+  const insight = await generate(PROMPTS[locale].insight(`${artist} - ${title}`));
+  if (insight) store("insight", localizedKey(trackKey(artist, title), locale), insight);
+  return insight;
+}
+
+// Resolves to an empty string when the model can't find the lyrics; misses are cached too
+export async function generateLyrics(artist: string, title: string): Promise<string> {
+  const text = await generate(
+    `Encontre a letra completa da música "${title}" do artista "${artist}". Retorne APENAS a letra, sem introduções ou conclusões. Se não encontrar, retorne exatamente "NOT_FOUND".`
+  );
+  const lyrics = text !== "NOT_FOUND" && text.length > 20 ? text : "";
+  store("lyrics", trackKey(artist, title), lyrics);
+  return lyrics;
+}
+
+export async function generateTranslation(lyrics: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
+  const translation = await generate(PROMPTS[locale].translation(lyrics));
+  if (translation) store("translation", localizedKey(textKey(lyrics), locale), translation);
+  return translation;
+}
@@ -0,0 +1,107 @@
+import { trackKey } from "../src/lib/trackKey.ts";
+import { getDb } from "./db.ts";
+import { fetchJson, urlExists } from "./http.ts";
+
+// Found covers rarely change; misses are retried sooner in case a provider catches up
+const HIT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MUSICBRAINZ_USER_AGENT = "SoundPop/1.0 ( https://soundpop.com.br )";
+
+export interface CoverResult {
+  url: string | null;
+  provider: string | null;
+}
+
+interface CoverProvider {
+  name: string;
+  find(artist: string, title: string): Promise<string | undefined>;
+}
+
+const itunes: CoverProvider = {
+  name: "itunes",
+  async find(artist, title) {
+    const query = encodeURIComponent(`${artist} ${title}`);
+    const data = await fetchJson(`https://itunes.apple.com/search?term=${query}&media=music&entity=song&limit=1`, 5000);
+    const artwork: string | undefined = data.results?.[0]?.artworkUrl100;
+    // iTunes artwork URL pattern is very predictable.
+    // Replacing 100x100 with 1000x1000bb usually works for highest quality.
+    return artwork?.replace("100x100", "1000x1000bb");
+  }
+};
+
+const deezer: CoverProvider = {
+  name: "deezer",
+  async find(artist, title) {
+    const query = encodeURIComponent(`artist:"${artist}" track:"${title}"`);
+    const data = await fetchJson(`https://api.deezer.com/search?q=${query}&limit=1`, 5000);
+    const album = data.data?.[0]?.album;
+    return album?.cover_xl || album?.cover_big || album?.cover_medium;
+  }
+};
+
+const musicBrainz: CoverProvider = {
+  name: "musicbrainz",
+  async find(artist, title) {
+    const query = encodeURIComponent(`recording:"${title}" AND artist:"${artist}"`);
+    const data = await fetchJson(
+      `https://musicbrainz.org/ws/2/recording?query=${query}&fmt=json&limit=1`,
+      5000,
+      { "User-Agent": MUSICBRAINZ_USER_AGENT }
+    );
+    const releaseId: string | undefined = data.recordings?.[0]?.releases?.[0]?.id;
+    if (!releaseId) return undefined;
+
+    const url = `https://coverartarchive.org/release/${releaseId}/front-500`;
+    return (await urlExists(url, 5000)) ? url : undefined;
+  }
+};
+
+const providers: CoverProvider[] = [itunes, deezer, musicBrainz];
+
+const pending = new Map<string, Promise<CoverResult>>();
+
+async function lookup(artist: string, title: string): Promise<CoverResult & { failed: boolean }> {
+  let failed = false;
+  for (const provider of providers) {
+    try {
+      const url = await provider.find(artist, title);
+      if (url) return { url, provider: provider.name, failed };
+    } catch (error) {
+      failed = true;
+      console.warn(`Cover provider ${provider.name} failed:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+  return { url: null, provider: null, failed };
+}
+
+// Resolves artwork through the provider chain, preferring a cover supplied by the station itself
+export async function resolveCover(artist: string, title: string, stationCover?: string): Promise<CoverResult> {
+  if (stationCover) return { url: stationCover, provider: "station" };
+
+  const key = trackKey(artist, title);
+  const cached = getDb()
+    .prepare("SELECT url, provider, fetched_at AS fetchedAt FROM covers WHERE key = ?")
+    .get(key) as (CoverResult & { fetchedAt: number }) | undefined;
+  if (cached && Date.now() - cached.fetchedAt < (cached.url ? HIT_TTL_MS : MISS_TTL_MS)) {
+    return { url: cached.url, provider: cached.provider };
+  }
+
+  // Concurrent requests for the same track share one lookup
+  let request = pending.get(key);
+  if (!request) {
+    request = lookup(artist, title)
+      .then(({ url, provider, failed }) => {
+        // Don't remember a miss that may only be a provider outage
+        if (url || !failed) {
+          getDb()
+            .prepare("INSERT OR REPLACE INTO covers (key, url, provider, fetched_at) VALUES (?, ?, ?, ?)")
+            .run(key, url, provider, Date.now());
+        }
+        return { url, provider };
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
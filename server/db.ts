@@ -0,0 +1,76 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+let db: Database.Database | null = null;
+
+// Tables of the features that store data, created together so no query runs before its table exists
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS plays (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    station TEXT NOT NULL,
+    songtitle TEXT NOT NULL,
+    artist TEXT NOT NULL,
+    title TEXT NOT NULL,
+    cover TEXT,
+    started_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS plays_station_started_at ON plays (station, started_at);
+
+  CREATE TABLE IF NOT EXISTS covers (
+    key TEXT PRIMARY KEY,
+    url TEXT,
+    provider TEXT,
+    fetched_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS lyrics_cache (
+    key TEXT PRIMARY KEY,
+    lyrics TEXT,
+    synced TEXT,
+    source TEXT,
+    fetched_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS lyrics_overrides (
+    key TEXT PRIMARY KEY,
+    artist TEXT NOT NULL,
+    title TEXT NOT NULL,
+    lyrics TEXT,
+    synced TEXT,
+    blacklisted INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ai_responses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    key TEXT NOT NULL,
+    response TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ai_responses_kind_key ON ai_responses (kind, key);
+
+  CREATE TABLE IF NOT EXISTS votes (
+    station TEXT NOT NULL,
+    track_key TEXT NOT NULL,
+    artist TEXT NOT NULL,
+    title TEXT NOT NULL,
+    device TEXT NOT NULL,
+    vote INTEGER NOT NULL,
+    voted_at INTEGER NOT NULL,
+    PRIMARY KEY (station, track_key, device)
+  );
+  CREATE INDEX IF NOT EXISTS votes_station_voted_at ON votes (station, voted_at);
+`;
+
+// Opens the shared SQLite database on first use and creates any missing tables
+export function getDb(): Database.Database {
+  if (!db) {
+    const databasePath = process.env.DATABASE_PATH || path.join(process.cwd(), "data", "radio.db");
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    db = new Database(databasePath);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+  }
+  return db;
+}
@@ -0,0 +1,49 @@
+import type { HistoryPage, NowPlaying, PlayedTrack } from "../src/types.ts";
+import { getDb } from "./db.ts";
+
+const MAX_LIMIT = 200;
+
+// Stores a track change reported by the poller
+export function recordPlay(nowPlaying: NowPlaying) {
+  // Offline snapshots carry no track
+  if (!nowPlaying.songtitle) return;
+
+  const last = getDb()
+    .prepare("SELECT songtitle FROM plays WHERE station = ? ORDER BY started_at DESC LIMIT 1")
+    .get(nowPlaying.station) as { songtitle: string } | undefined;
+
+  // After a restart the poller announces the track that was already playing
+  if (last?.songtitle === nowPlaying.songtitle) return;
+
+  getDb()
+    .prepare("INSERT INTO plays (station, songtitle, artist, title, cover, started_at) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(
+      nowPlaying.station,
+      nowPlaying.songtitle,
+      nowPlaying.artist,
+      nowPlaying.title,
+      nowPlaying.cover ?? null,
+      nowPlaying.startedAt ?? Date.now()
+    );
+}
+
+// Returns plays between from and to (inclusive, ms since epoch), most recent first
+export function getHistory(
+  station: string,
+  { from = 0, to = Date.now(), limit = 50 }: { from?: number; to?: number; limit?: number } = {}
+): HistoryPage {
+  const pageSize = Math.min(Math.max(1, Math.floor(limit)), MAX_LIMIT);
+  const rows = getDb()
+    .prepare(`
+      SELECT station, songtitle, artist, title, cover, started_at AS startedAt
+      FROM plays
+      WHERE station = ? AND started_at >= ? AND started_at <= ?
+      ORDER BY started_at DESC
+      LIMIT ?
+    `)
+    .all(station, from, to, pageSize + 1) as (Omit<PlayedTrack, "cover"> & { cover: string | null })[];
+
+  const items: PlayedTrack[] = rows.slice(0, pageSize).map((row) => ({ ...row, cover: row.cover ?? undefined }));
+  const next = rows.length > pageSize ? items[items.length - 1].startedAt - 1 : null;
+  return { items, next };
+}
@@ -0,0 +1,70 @@
+import fetch from "node-fetch";
+import https from "https";
+
+// Create an HTTPS agent that ignores certificate errors (common in radio streaming servers)
+export const httpsAgent = new https.Agent({
+  rejectUnauthorized: false,
+});
+
+export const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+// Fetches an upstream URL as text, throwing on network errors and non-2xx responses
+export async function fetchText(url: string, timeout = 4000, headers: Record<string, string> = {}): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept": "application/json, text/plain, */*",
+      ...headers
+    },
+    agent: url.startsWith("https") ? httpsAgent : undefined,
+    timeout
+  });
+
+  if (!response.ok) {
+    throw new HttpError(`Endpoint ${url} returned status: ${response.status}`, response.status);
+  }
+  return response.text();
+}
+
+export async function fetchJson(url: string, timeout = 4000, headers: Record<string, string> = {}): Promise<any> {
+  const text = await fetchText(url, timeout, headers);
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Endpoint ${url} returned non-JSON content: ${text.substring(0, 100)}`);
+  }
+}
+
+// Checks that a URL exists without downloading the body
+export async function urlExists(url: string, timeout = 4000): Promise<boolean> {
+  const response = await fetch(url, {
+    method: "HEAD",
+    headers: { "User-Agent": USER_AGENT },
+    agent: url.startsWith("https") ? httpsAgent : undefined,
+    timeout
+  });
+  return response.ok;
+}
+
+// Retries network failures and 5xx responses with exponential backoff; 4xx responses fail immediately
+export async function withRetry<T>(task: () => Promise<T>, retries = 2, delayMs = 500): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const retryable = !(error instanceof HttpError) || error.status >= 500;
+      if (!retryable || attempt >= retries) throw error;
+      await new Promise((resolve) => setTimeout(resolve, delayMs * 2 ** attempt));
+    }
+  }
+}
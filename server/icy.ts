@@ -0,0 +1,157 @@
+import fetch from "node-fetch";
+import { Transform, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { HttpError, httpsAgent, USER_AGENT } from "./http.ts";
+
+const RECONNECT_MIN_MS = 5000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+// Metadata is usually UTF-8, but older encoders still send Latin-1
+const decodeIcyText = (buffer: Buffer) => {
+  const text = buffer.toString("utf8");
+  return text.includes("\ufffd") ? buffer.toString("latin1") : text;
+};
+
+// Separates the audio from ICY in-band metadata. When a client sends "Icy-MetaData: 1", Shoutcast
+// and Icecast insert a block after every `metaint` bytes of audio: one length byte (in units of 16)
+// followed by text such as `StreamTitle='Artist - Title';`, padded with NULs. Only the audio is
+// passed on; each non-empty block goes to `onMetadata`.
+export function createIcyDemuxer(metaint: number, onMetadata?: (metadata: string) => void): Transform {
+  let audioLeft = metaint;
+  // null while the next byte is a block length
+  let metadataLeft: number | null = null;
+  let metadataChunks: Buffer[] = [];
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      let offset = 0;
+      while (offset < chunk.length) {
+        if (audioLeft > 0) {
+          const end = Math.min(chunk.length, offset + audioLeft);
+          this.push(chunk.subarray(offset, end));
+          audioLeft -= end - offset;
+          offset = end;
+        } else if (metadataLeft === null) {
+          metadataLeft = chunk[offset++] * 16;
+          metadataChunks = [];
+          if (metadataLeft === 0) {
+            metadataLeft = null;
+            audioLeft = metaint;
+          }
+        } else {
+          const end = Math.min(chunk.length, offset + metadataLeft);
+          metadataChunks.push(chunk.subarray(offset, end));
+          metadataLeft -= end - offset;
+          offset = end;
+          if (metadataLeft === 0) {
+            const metadata = decodeIcyText(Buffer.concat(metadataChunks)).replace(/\0+$/, "");
+            if (metadata) onMetadata?.(metadata);
+            metadataLeft = null;
+            audioLeft = metaint;
+          }
+        }
+      }
+      callback();
+    }
+  });
+}
+
+// Extracts the title from a block such as `StreamTitle='Artist - Title';StreamUrl='';`. Titles may
+// contain quotes, so the value runs until the next `';` that ends the block or starts another key.
+export function parseStreamTitle(metadata: string): string | null {
+  const match = /StreamTitle='(.*?)';(?=\s*$|\w+=)/s.exec(metadata);
+  return match ? match[1].trim() : null;
+}
+
+// Reads the audio stream, discarding the audio and calling onTitle for every StreamTitle,
+// until the stream ends or the signal aborts it
+async function readStreamTitles(url: string, signal: AbortSignal, onTitle: (title: string) => void): Promise<void> {
+  const response = await fetch(url, {
+    headers: { "User-Agent": USER_AGENT, "Icy-MetaData": "1" },
+    agent: url.startsWith("https") ? httpsAgent : undefined,
+    timeout: 8000,
+    signal
+  });
+  if (!response.ok) {
+    response.body.destroy();
+    throw new HttpError(`Stream ${url} returned status: ${response.status}`, response.status);
+  }
+
+  const metaint = Number(response.headers.get("icy-metaint"));
+  if (!metaint) {
+    response.body.destroy();
+    throw new Error(`Stream ${url} doesn't send ICY metadata`);
+  }
+
+  const demuxer = createIcyDemuxer(metaint, (metadata) => {
+    const title = parseStreamTitle(metadata);
+    if (title) onTitle(title);
+  });
+  const discard = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  await pipeline(response.body, demuxer, discard);
+}
+
+// Connects just long enough to read the first StreamTitle
+export async function fetchStreamTitle(url: string, timeout = 5000): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  let title: string | undefined;
+
+  try {
+    await readStreamTitles(url, controller.signal, (value) => {
+      title = value;
+      controller.abort();
+    });
+  } catch (error) {
+    // Aborting once the title has arrived is expected
+    if (title === undefined) {
+      throw controller.signal.aborted ? new Error(`Timed out waiting for StreamTitle from ${url}`) : error;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (title === undefined) throw new Error(`No StreamTitle received from ${url}`);
+  return title;
+}
+
+export interface StreamTitleHandlers {
+  onTitle(title: string): void;
+  // The connection dropped; titles resume after an automatic reconnect
+  onDisconnect(): void;
+}
+
+// Keeps a connection to the stream open and reports every StreamTitle as the audio carries it,
+// reconnecting with backoff. Returns a function that stops watching.
+export function watchStreamTitle(url: string, handlers: StreamTitleHandlers): () => void {
+  let stopped = false;
+  let controller: AbortController | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let delay = RECONNECT_MIN_MS;
+
+  const connect = async () => {
+    controller = new AbortController();
+    try {
+      await readStreamTitles(url, controller.signal, (title) => {
+        delay = RECONNECT_MIN_MS;
+        handlers.onTitle(title);
+      });
+    } catch (error) {
+      if (!stopped) {
+        console.warn(`ICY metadata from ${url} failed:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    handlers.onDisconnect();
+    if (stopped) return;
+    timer = setTimeout(connect, delay);
+    delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+  };
+
+  connect();
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+  };
+}
@@ -0,0 +1,40 @@
+import type { LyricLine } from "../src/types.ts";
+
+const TIMESTAMP = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]$/i;
+
+// Parses LRC text into lines sorted by time (ms from track start).
+// Lines with several timestamps are repeated; ID tags other than [offset:] are ignored.
+export function parseLrc(lrc: string): LyricLine[] {
+  const lines: LyricLine[] = [];
+  let offset = 0;
+
+  for (const rawLine of lrc.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const offsetMatch = line.match(OFFSET_TAG);
+    if (offsetMatch) {
+      // A positive offset means the lyrics should show up earlier
+      offset = Number(offsetMatch[1]);
+      continue;
+    }
+
+    const times: number[] = [];
+    let match: RegExpExecArray | null;
+    TIMESTAMP.lastIndex = 0;
+    while ((match = TIMESTAMP.exec(line)) !== null) {
+      const fraction = match[3] ? Number(match[3].padEnd(3, "0")) : 0;
+      times.push(Number(match[1]) * 60000 + Number(match[2]) * 1000 + fraction);
+    }
+    if (times.length === 0) continue;
+
+    const text = line.replace(TIMESTAMP, "").trim();
+    for (const time of times) lines.push({ time, text });
+  }
+
+  return lines
+    .map((line) => ({ ...line, time: Math.max(0, line.time - offset) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Plain-text version of synced lyrics, used when the player can't follow the timing
+export const lrcToPlain = (lines: LyricLine[]) => lines.map((line) => line.text).join("\n").trim();
@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import type { LyricLine, LyricsResult } from "../src/types.ts";
+import { trackKey } from "../src/lib/trackKey.ts";
+import { generateLyrics, getCached, isAiConfigured } from "./ai.ts";
+import { getDb } from "./db.ts";
+import { fetchJson, HttpError, withRetry } from "./http.ts";
+import { lrcToPlain, parseLrc } from "./lrc.ts";
+
+// A found text is kept for months; a miss is asked again the next day, as lrclib gains new tracks daily
+const HIT_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_PROVIDERS = "local,lrclib,lyrics.ovh,ai";
+
+interface LyricsProvider {
+  name: string;
+  // Resolves to null when the provider doesn't have the track
+  find(artist: string, title: string): Promise<LyricsResult | null>;
+}
+
+const notFoundAsNull = (error: unknown) => {
+  if (error instanceof HttpError && error.status === 404) return null;
+  throw error;
+};
+
+const stripAccents = (text: string) => text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const FEATURING = /\s+(?:feat\.?|ft\.?|featuring|part\.?|participação especial de)\s+.*$/i;
+const VERSION_WORDS = "feat\\.?|ft\\.?|featuring|remaster(?:ed)?|live|ao vivo|radio edit|edit|vers[aã]o|version|mono|stereo|explicit|clean|bonus track";
+const VERSION_BRACKETS = new RegExp(`\\s*[([][^)\\]]*\\b(?:${VERSION_WORDS})\\b[^)\\]]*[)\\]]`, "gi");
+const VERSION_SUFFIX = new RegExp(`\\s+-\\s+[^-]*\\b(?:${VERSION_WORDS})\\b.*$`, "i");
+
+// Drops featured artists and version tags ("Remastered 2011", "Ao Vivo", "Radio Edit"...) that
+// stations append but lyrics providers don't know about
+export function normalizeTrack(artist: string, title: string) {
+  return {
+    artist: artist.replace(FEATURING, "").trim() || artist.trim(),
+    title: title.replace(VERSION_BRACKETS, "").replace(VERSION_SUFFIX, "").replace(FEATURING, "").trim() || title.trim()
+  };
+}
+
+// Cache key that ignores case, accents and punctuation differences between stations. Letters of
+// every script are kept, so non-Latin titles don't collapse into the same key; a name made only of
+// punctuation keeps its raw text.
+export function lyricsKey(artist: string, title: string) {
+  const normalized = normalizeTrack(artist, title);
+  const clean = (text: string) =>
+    stripAccents(text).normalize("NFC").toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, " ").trim() || text.trim();
+  return `${clean(normalized.artist)}|${clean(normalized.title)}`;
+}
+
+// Staff-maintained folder of "Artist - Title.lrc" (or .txt) files, matched case- and accent-insensitively
+const localFiles: LyricsProvider = {
+  name: "local",
+  async find(artist, title) {
+    const dir = process.env.LYRICS_DIR;
+    if (!dir) return null;
+
+    const base = stripAccents(`${artist} - ${title}`).toLowerCase();
+    const files = await fs.promises.readdir(dir).catch(() => [] as string[]);
+    const matches = (name: string, extension: string) => stripAccents(name).toLowerCase() === `${base}${extension}`;
+    const file = files.find((name) => matches(name, ".lrc")) ?? files.find((name) => matches(name, ".txt"));
+    if (!file) return null;
+
+    const content = await fs.promises.readFile(path.join(dir, file), "utf8");
+    if (file.toLowerCase().endsWith(".txt")) {
+      return { lyrics: content.trim(), source: "local" };
+    }
+    const synced = parseLrc(content);
+    return synced.length > 0
+      ? { lyrics: lrcToPlain(synced), synced, source: "local" }
+      : { lyrics: content.trim(), source: "local" };
+  }
+};
+
+const lrclib: LyricsProvider = {
+  name: "lrclib",
+  async find(artist, title) {
+    const params = new URLSearchParams({ artist_name: artist, track_name: title });
+    const data = await withRetry(() => fetchJson(`https://lrclib.net/api/get?${params}`, 8000)).catch(notFoundAsNull);
+    if (!data || data.instrumental) return null;
+
+    const synced = typeof data.syncedLyrics === "string" ? parseLrc(data.syncedLyrics) : [];
+    if (synced.length > 0) {
+      return { lyrics: data.plainLyrics?.trim() || lrcToPlain(synced), synced, source: "lrclib" };
+    }
+    return data.plainLyrics ? { lyrics: data.plainLyrics.trim(), source: "lrclib" } : null;
+  }
+};
+
+const lyricsOvh: LyricsProvider = {
+  name: "lyrics.ovh",
+  async find(artist, title) {
+    const url = `https://api.lyrics.ovh/v1/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`;
+    const data = await withRetry(() => fetchJson(url, 8000)).catch(notFoundAsNull);
+    return data?.lyrics ? { lyrics: data.lyrics.trim(), source: "lyrics.ovh" } : null;
+  }
+};
+
+// Last resort: ask Gemini. Skipped when AI is not configured.
+const ai: LyricsProvider = {
+  name: "ai",
+  async find(artist, title) {
+    if (!isAiConfigured()) return null;
+    const lyrics = getCached("lyrics", trackKey(artist, title)) ?? await generateLyrics(artist, title);
+    return lyrics ? { lyrics, source: "ai" } : null;
+  }
+};
+
+const availableProviders: Record<string, LyricsProvider> = {
+  local: localFiles,
+  lrclib,
+  "lyrics.ovh": lyricsOvh,
+  ai
+};
+
+// Order comes from LYRICS_PROVIDERS; synced sources should come first so the karaoke view is used whenever timing exists
+function getProviders(): LyricsProvider[] {
+  return (process.env.LYRICS_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(",")
+    .map((name) => availableProviders[name.trim()])
+    .filter((provider): provider is LyricsProvider => Boolean(provider));
+}
+
+interface StoredLyrics {
+  lyrics: string | null;
+  synced: string | null;
+  source: string | null;
+}
+
+const fromRow = (row: StoredLyrics): LyricsResult | null => {
+  if (!row.lyrics) return null;
+  const synced: LyricLine[] | undefined = row.synced ? JSON.parse(row.synced) : undefined;
+  return { lyrics: row.lyrics, synced, source: row.source || "cache" };
+};
+
+const stats = { hits: 0, misses: 0, overrides: 0, bySource: {} as Record<string, number> };
+
+// An override or a fresh cache entry; undefined when the providers have to be asked
+function readStored(key: string): { result: LyricsResult | null; override: boolean } | undefined {
+  const override = getDb()
+    .prepare("SELECT lyrics, synced, blacklisted FROM lyrics_overrides WHERE key = ?")
+    .get(key) as (StoredLyrics & { blacklisted: number }) | undefined;
+  if (override) {
+    return { result: override.blacklisted ? null : fromRow({ ...override, source: "override" }), override: true };
+  }
+
+  const cached = getDb()
+    .prepare("SELECT lyrics, synced, source, fetched_at AS fetchedAt FROM lyrics_cache WHERE key = ?")
+    .get(key) as (StoredLyrics & { fetchedAt: number }) | undefined;
+  if (cached && Date.now() - cached.fetchedAt < (cached.lyrics ? HIT_TTL_MS : MISS_TTL_MS)) {
+    return { result: fromRow(cached), override: false };
+  }
+  return undefined;
+}
+
+// True when a lookup can end in a Gemini call, so callers can rate-limit uncached requests
+export const lyricsUseAi = () => isAiConfigured() && getProviders().includes(ai);
+
+// Answers from overrides and the cache only; undefined means findLyrics would ask the providers
+export const getStoredLyrics = (artist: string, title: string) => readStored(lyricsKey(artist, title))?.result;
+
+async function lookup(artist: string, title: string): Promise<{ result: LyricsResult | null; failed: boolean }> {
+  const normalized = normalizeTrack(artist, title);
+  // Providers get the cleaned names first, then the names exactly as announced
+  const queries = [normalized];
+  if (normalized.artist !== artist || normalized.title !== title) queries.push({ artist, title });
+
+  let failed = false;
+  for (const provider of getProviders()) {
+    for (const query of queries) {
+      try {
+        const result = await provider.find(query.artist, query.title);
+        if (result) return { result, failed };
+      } catch (error) {
+        failed = true;
+        console.warn(`Lyrics provider ${provider.name} failed:`, error instanceof Error ? error.message : String(error));
+      }
+      // One Gemini call per track is enough
+      if (provider === ai) break;
+    }
+  }
+  return { result: null, failed };
+}
+
+const pending = new Map<string, Promise<LyricsResult | null>>();
+
+// Staff overrides win, then the cache, then the provider chain. Throws when nothing was found
+// and a provider failed, so an outage isn't cached or reported as missing lyrics.
+export async function findLyrics(artist: string, title: string): Promise<LyricsResult | null> {
+  const key = lyricsKey(artist, title);
+
+  const stored = readStored(key);
+  if (stored) {
+    stats[stored.override ? "overrides" : "hits"]++;
+    return stored.result;
+  }
+  stats.misses++;
+
+  // Listeners opening the lyrics of a new track at once trigger a single run of the providers
+  let request = pending.get(key);
+  if (!request) {
+    request = lookup(artist, title)
+      .then(({ result, failed }) => {
+        if (!result && failed) throw new Error("Lyrics providers unavailable");
+        getDb()
+          .prepare("INSERT OR REPLACE INTO lyrics_cache (key, lyrics, synced, source, fetched_at) VALUES (?, ?, ?, ?, ?)")
+          .run(key, result?.lyrics ?? null, result?.synced ? JSON.stringify(result.synced) : null, result?.source ?? null, Date.now());
+        if (result) stats.bySource[result.source] = (stats.bySource[result.source] || 0) + 1;
+        return result;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+// Replaces the lyrics for a track; `lrc` may be given instead of (or with) plain text
+export function overrideLyrics(artist: string, title: string, lyrics?: string, lrc?: string) {
+  const synced = lrc ? parseLrc(lrc) : [];
+  const plain = lyrics?.trim() || lrcToPlain(synced);
+  if (!plain) throw new Error("Lyrics or LRC are required");
+
+  getDb()
+    .prepare(`
+      INSERT OR REPLACE INTO lyrics_overrides (key, artist, title, lyrics, synced, blacklisted, updated_at)
+      VALUES (?, ?, ?, ?, ?, 0, ?)
+    `)
+    .run(lyricsKey(artist, title), artist, title, plain, synced.length > 0 ? JSON.stringify(synced) : null, Date.now());
+}
+
+// Never show lyrics for a track (wrong matches, explicit content...)
+export function blacklistLyrics(artist: string, title: string) {
+  getDb()
+    .prepare(`
+      INSERT OR REPLACE INTO lyrics_overrides (key, artist, title, lyrics, synced, blacklisted, updated_at)
+      VALUES (?, ?, ?, NULL, NULL, 1, ?)
+    `)
+    .run(lyricsKey(artist, title), artist, title, Date.now());
+}
+
+// Removes an override or blacklist entry and the cached lookup, so the next request asks the providers again
+export function resetLyrics(artist: string, title: string): boolean {
+  const key = lyricsKey(artist, title);
+  const removed = getDb().prepare("DELETE FROM lyrics_overrides WHERE key = ?").run(key).changes;
+  getDb().prepare("DELETE FROM lyrics_cache WHERE key = ?").run(key);
+  return removed > 0;
+}
+
+export function listLyricsOverrides() {
+  return getDb()
+    .prepare("SELECT artist, title, blacklisted, updated_at AS updatedAt FROM lyrics_overrides ORDER BY updated_at DESC")
+    .all()
+    .map((row: any) => ({ ...row, blacklisted: Boolean(row.blacklisted) }));
+}
+
+export function getLyricsStats() {
+  const { entries, found } = getDb()
+    .prepare("SELECT COUNT(*) AS entries, COUNT(lyrics) AS found FROM lyrics_cache")
+    .get() as { entries: number; found: number };
+  const lookups = stats.hits + stats.misses;
+  return {
+    ...stats,
+    hitRate: lookups > 0 ? stats.hits / lookups : 0,
+    cachedEntries: entries,
+    cachedMisses: entries - found,
+    providers: getProviders().map((provider) => provider.name)
+  };
+}
@@ -0,0 +1,167 @@
+import type { MetadataSource, MetadataSourceType, NowPlaying, Station, Track } from "../src/types.ts";
+import { fetchJson, fetchText } from "./http.ts";
+import { fetchStreamTitle } from "./icy.ts";
+
+// Each adapter reads one upstream format and returns the normalized NowPlaying shape.
+// Adapters throw when the upstream is unreachable or has nothing playing.
+export type MetadataAdapter = (source: MetadataSource, station: Station) => Promise<NowPlaying>;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+// Splits the usual "Artist - Title" announcement; titles without a separator are credited to the station
+export function splitSongTitle(songtitle: string, fallbackArtist: string): Track {
+  const [artist, ...titleParts] = songtitle.split(" - ");
+  const title = titleParts.join(" - ").trim();
+  if (!title) return { artist: fallbackArtist, title: songtitle.trim() };
+  return { artist: artist.trim() || fallbackArtist, title };
+}
+
+function buildNowPlaying(
+  station: Station,
+  source: MetadataSourceType,
+  songtitle: unknown,
+  extra: Partial<Omit<NowPlaying, "station" | "source" | "songtitle">> = {}
+): NowPlaying {
+  if (typeof songtitle !== "string" || !songtitle.trim()) {
+    throw new Error(`No song title in ${source} response`);
+  }
+  return {
+    ...splitSongTitle(songtitle, station.name),
+    history: [],
+    ...extra,
+    station: station.id,
+    songtitle: songtitle.trim(),
+    source
+  };
+}
+
+// Shoutcast v1 7.html: <body>listeners,status,peak,max,unique,bitrate,Artist - Song</body>, where status 1 means a source is connected
+const shoutcastV1: MetadataAdapter = async (source, station) => {
+  const text = await fetchText(source.url, 3000);
+  const parts = decodeEntities(text.replace(/<[^>]*>/g, "").trim()).split(",");
+  if (parts.length < 7) {
+    throw new Error(`Unexpected 7.html format: ${text.substring(0, 100)}`);
+  }
+  return buildNowPlaying(station, "shoutcast-v1", parts.slice(6).join(","), {
+    listeners: toNumber(parts[0]),
+    peakListeners: toNumber(parts[2]),
+    maxListeners: toNumber(parts[3]),
+    bitrate: toNumber(parts[5]),
+    online: parts[1].trim() === "1"
+  });
+};
+
+// Shoutcast v2 stats?json=1
+const shoutcastV2: MetadataAdapter = async (source, station) => {
+  const data = await fetchJson(source.url);
+  const streamStatus = toNumber(data.streamstatus);
+  return buildNowPlaying(station, "shoutcast-v2", data.songtitle, {
+    listeners: toNumber(data.currentlisteners),
+    peakListeners: toNumber(data.peaklisteners),
+    maxListeners: toNumber(data.maxlisteners),
+    bitrate: toNumber(data.bitrate),
+    genre: data.servergenre || undefined,
+    online: streamStatus === undefined ? undefined : streamStatus === 1
+  });
+};
+
+// Icecast status-json.xsl, where "source" is an object or an array when several mounts exist
+const icecast: MetadataAdapter = async (source, station) => {
+  const data = await fetchJson(source.url);
+  const sources: any[] = [].concat(data?.icestats?.source ?? []);
+  const mount = source.mount
+    ? sources.find((s) => typeof s.listenurl === "string" && s.listenurl.endsWith(source.mount))
+    : sources.find((s) => s.title);
+  if (!mount) {
+    throw new Error(`No Icecast mount found at ${source.url}`);
+  }
+
+  const songtitle = mount.artist && mount.title ? `${mount.artist} - ${mount.title}` : mount.title;
+  const audioBitrate = toNumber(mount.audio_bitrate);
+  // Icecast only lists mounts that have a source connected
+  return buildNowPlaying(station, "icecast", songtitle, {
+    listeners: toNumber(mount.listeners),
+    peakListeners: toNumber(mount.listener_peak),
+    online: true,
+    bitrate: toNumber(mount.bitrate) ?? toNumber(mount["ice-bitrate"]) ?? (audioBitrate && Math.round(audioBitrate / 1000)),
+    genre: mount.genre || undefined
+  });
+};
+
+// Panel JSON served on port 2020 (json/stream/<port>), which also carries covers and track history
+const centova: MetadataAdapter = async (source, station) => {
+  const data = await fetchJson(source.url);
+  const covers: unknown[] = Array.isArray(data.covers) ? data.covers : [];
+  const history: Track[] = Array.isArray(data.trackhistory)
+    ? data.trackhistory
+        .filter((item: unknown): item is string => typeof item === "string" && item.trim() !== "")
+        .map((item: string, index: number) => ({
+          ...splitSongTitle(item, station.name),
+          cover: typeof covers[index] === "string" ? (covers[index] as string) : undefined
+        }))
+    : [];
+
+  return buildNowPlaying(station, "centova", data.nowplaying || data.songtitle, {
+    cover: data.coverart || undefined,
+    listeners: toNumber(data.listeners ?? data.currentlisteners),
+    peakListeners: toNumber(data.peaklisteners),
+    maxListeners: toNumber(data.maxlisteners),
+    bitrate: toNumber(data.bitrate),
+    genre: data.genre || undefined,
+    online: typeof data.status === "string" ? /^(up|online)$/i.test(data.status) : undefined,
+    history
+  });
+};
+
+// StreamTitle from the first in-band metadata block of the audio stream. The poller also keeps
+// these streams open to pick up title changes as they happen.
+const icy: MetadataAdapter = async (source, station) => {
+  return buildNowPlaying(station, "icy", await fetchStreamTitle(source.url), { online: true });
+};
+
+export const adapters: Record<MetadataSourceType, MetadataAdapter> = {
+  "shoutcast-v1": shoutcastV1,
+  "shoutcast-v2": shoutcastV2,
+  icecast,
+  centova,
+  icy
+};
+
+// Tries the station's metadata sources in order and returns the first one that answers. This runs on
+// every poll, so failures of individual sources are only logged with METADATA_DEBUG=true; the poller
+// reports the station as a whole.
+export async function fetchNowPlaying(station: Station): Promise<NowPlaying> {
+  let lastError: unknown = new Error("Station has no metadata sources");
+  const debug = process.env.METADATA_DEBUG === "true";
+
+  for (const source of station.metadata) {
+    const adapter = adapters[source.type];
+    if (!adapter) {
+      console.warn(`No metadata adapter for type "${source.type}"`);
+      continue;
+    }
+
+    try {
+      return await adapter(source, station);
+    } catch (error) {
+      if (debug) {
+        console.warn(`Error fetching ${source.type} metadata from ${source.url}:`, error instanceof Error ? error.message : String(error));
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,180 @@
+import { EventEmitter } from "events";
+import type { NowPlaying, Station } from "../src/types.ts";
+import { watchStreamTitle } from "./icy.ts";
+import { fetchNowPlaying, splitSongTitle } from "./metadata.ts";
+
+export type NowPlayingListener = (nowPlaying: NowPlaying) => void;
+
+// Adds information the upstream doesn't provide (e.g. cover art) before a track change is announced
+export type NowPlayingEnricher = (nowPlaying: NowPlaying, station: Station) => Promise<NowPlaying>;
+
+export interface NowPlayingPoller {
+  // Latest known metadata for a station; an offline snapshot with no track when its upstream has
+  // never answered, and undefined until the first poll finishes
+  current(stationId: string): NowPlaying | undefined;
+  // Calls listener on every track change and whenever listener counts, bitrate or the upstream
+  // status change; returns an unsubscribe function
+  subscribe(stationId: string, listener: NowPlayingListener): () => void;
+  start(): void;
+  stop(): void;
+}
+
+// Published when a station's upstream fails before any track was ever seen, so listeners still learn it's down
+export const offlineSnapshot = (station: Station): NowPlaying => ({
+  station: station.id,
+  artist: "",
+  title: "",
+  songtitle: "",
+  history: [],
+  source: station.metadata[0]?.type ?? "icy",
+  online: false
+});
+
+// Polls every station's upstream once per interval, no matter how many listeners are connected,
+// and notifies subscribers only when the track or its stats actually change. Stations with an `icy` metadata
+// source also have their stream watched, so title changes are announced as the audio carries them.
+export function createNowPlayingPoller(
+  stations: Station[],
+  intervalMs = 10000,
+  enrich?: NowPlayingEnricher
+): NowPlayingPoller {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  const latest = new Map<string, NowPlaying>();
+  const inFlight = new Set<string>();
+  // Stations whose titles currently come live from the stream; polls only refresh their stats
+  const live = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let stopWatchers: Array<() => void> = [];
+
+  const statsChanged = (previous: NowPlaying, next: NowPlaying) =>
+    previous.listeners !== next.listeners ||
+    previous.peakListeners !== next.peakListeners ||
+    previous.bitrate !== next.bitrate ||
+    previous.online !== next.online;
+
+  const update = (station: Station, previous: NowPlaying, next: NowPlaying) => {
+    latest.set(station.id, next);
+    if (statsChanged(previous, next)) emitter.emit(station.id, next);
+  };
+
+  // Bumped whenever a station reports a title. Enriching can take seconds (cover lookups), so an
+  // announcement that finishes after a newer title arrived is dropped instead of replacing it.
+  const titleVersions = new Map<string, number>();
+  const nextTitleVersion = (stationId: string) => {
+    const version = (titleVersions.get(stationId) ?? 0) + 1;
+    titleVersions.set(stationId, version);
+    return version;
+  };
+
+  const announce = async (station: Station, next: NowPlaying) => {
+    const version = nextTitleVersion(station.id);
+    const startedAt = Date.now();
+    const nowPlaying = { ...(enrich ? await enrich(next, station) : next), startedAt };
+    if (titleVersions.get(station.id) !== version) return;
+    latest.set(station.id, nowPlaying);
+    emitter.emit(station.id, nowPlaying);
+  };
+
+  const poll = async (station: Station) => {
+    if (inFlight.has(station.id)) return;
+    inFlight.add(station.id);
+
+    try {
+      const next = await fetchNowPlaying(station);
+      const previous = latest.get(station.id);
+
+      if (previous && live.has(station.id)) {
+        // The polled title lags behind the stream's, so keep the live track and take only the stats
+        const { artist, title, songtitle, cover, source, startedAt } = previous;
+        update(station, previous, { ...next, artist, title, songtitle, cover, source, startedAt });
+        return;
+      }
+
+      if (previous && previous.songtitle === next.songtitle) {
+        // Same track: keep its start time and cover but refresh listener counts and the like
+        update(station, previous, { ...next, cover: next.cover ?? previous.cover, startedAt: previous.startedAt });
+        return;
+      }
+
+      await announce(station, next);
+    } catch (error) {
+      console.error(`Now playing poll failed for ${station.id}:`, error instanceof Error ? error.message : String(error));
+      // Every source failing means the station is down, unless the stream itself is still announcing titles
+      const previous = latest.get(station.id);
+      if (!previous) {
+        latest.set(station.id, offlineSnapshot(station));
+        emitter.emit(station.id, latest.get(station.id));
+      } else if (!live.has(station.id)) {
+        update(station, previous, { ...previous, listeners: undefined, online: false });
+      }
+    } finally {
+      inFlight.delete(station.id);
+    }
+  };
+
+  const pollAll = () => {
+    for (const station of stations) poll(station);
+  };
+
+  const handleStreamTitle = async (station: Station, songtitle: string) => {
+    live.add(station.id);
+    const previous = latest.get(station.id);
+    if (previous?.songtitle === songtitle) {
+      // Back to the track on air: a title still being enriched must not replace it
+      nextTitleVersion(station.id);
+      return;
+    }
+
+    // Stats and history carry over until the next poll refreshes them
+    const history = previous?.songtitle ? [{ artist: previous.artist, title: previous.title, cover: previous.cover }, ...previous.history] : [];
+    try {
+      await announce(station, {
+        ...previous,
+        ...splitSongTitle(songtitle, station.name),
+        cover: undefined,
+        station: station.id,
+        songtitle,
+        source: "icy",
+        online: true,
+        history
+      });
+    } catch (error) {
+      console.error(`Stream title update failed for ${station.id}:`, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const watchStreams = () => {
+    for (const station of stations) {
+      const source = station.metadata.find((candidate) => candidate.type === "icy");
+      if (!source) continue;
+      stopWatchers.push(watchStreamTitle(source.url, {
+        onTitle: (songtitle) => handleStreamTitle(station, songtitle),
+        onDisconnect: () => live.delete(station.id)
+      }));
+    }
+  };
+
+  return {
+    current: (stationId) => latest.get(stationId),
+    subscribe(stationId, listener) {
+      emitter.on(stationId, listener);
+      return () => {
+        emitter.off(stationId, listener);
+      };
+    },
+    start() {
+      if (timer) return;
+      pollAll();
+      timer = setInterval(pollAll, intervalMs);
+      watchStreams();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      for (const stopWatcher of stopWatchers) stopWatcher();
+      stopWatchers = [];
+      live.clear();
+    }
+  };
+}
@@ -0,0 +1,28 @@
+export interface RateLimiter {
+  // Counts one hit for key and reports whether it is within the limit
+  consume(key: string): { allowed: boolean; retryAfterMs: number };
+}
+
+// Fixed-window, in-memory limiter: at most `max` hits per key every `windowMs`
+export function createRateLimiter(max: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count++;
+
+      // Drop expired windows now and then so the map doesn't grow forever
+      if (windows.size > 10000) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+      }
+
+      return { allowed: window.count <= max, retryAfterMs: window.resetAt - now };
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import fetch from "node-fetch";
+import type express from "express";
+import type { Station } from "../src/types.ts";
+import { httpsAgent, USER_AGENT } from "./http.ts";
+import { createIcyDemuxer } from "./icy.ts";
+
+// off: players connect to the upstream directly; fallback: the relay is tried after the upstream
+// streams; primary: the relay is tried first
+export type RelayMode = "off" | "fallback" | "primary";
+
+export interface RelayStats {
+  mode: RelayMode;
+  maxListeners: number;
+  total: number;
+  listeners: Record<string, number>;
+}
+
+export interface StreamRelay {
+  mode: RelayMode;
+  // Adds the relay URL to a station's streams according to the mode
+  withRelay(station: Station): Station;
+  // Pipes the station's audio to the client until it disconnects
+  handle(station: Station, req: express.Request, res: express.Response): Promise<void>;
+  stats(): RelayStats;
+}
+
+export const parseRelayMode = (value?: string): RelayMode =>
+  value === "fallback" || value === "primary" ? value : "off";
+
+// Header values must be Latin-1; drop anything else rather than failing the response
+const toHeaderValue = (text: string) => text.replace(/[^\t\x20-\x7e\x80-\xff]/g, "");
+
+// Relays upstream audio over our own origin, so listeners aren't affected by the upstream's broken
+// certificate, plain-HTTP mounts or missing CORS headers. Each listener gets its own upstream
+// connection; the total is capped at maxListeners.
+export function createStreamRelay(mode: RelayMode, maxListeners = 100): StreamRelay {
+  const listeners = new Map<string, number>();
+  const total = () => [...listeners.values()].reduce((sum, count) => sum + count, 0);
+
+  const connectUpstream = async (station: Station, signal: AbortSignal) => {
+    for (const url of station.streams) {
+      try {
+        const response = await fetch(url, {
+          // Always ask for metadata so the upstream's ICY headers tell us how to strip it
+          headers: { "User-Agent": USER_AGENT, "Icy-MetaData": "1" },
+          agent: url.startsWith("https") ? httpsAgent : undefined,
+          timeout: 8000,
+          signal
+        });
+        if (response.ok) return response;
+        response.body.destroy();
+        console.warn(`Relay upstream ${url} returned status: ${response.status}`);
+      } catch (error) {
+        if (signal.aborted) return null;
+        console.warn(`Relay upstream ${url} failed:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+    return null;
+  };
+
+  return {
+    mode,
+    withRelay(station) {
+      if (mode === "off") return station;
+      const relayUrl = `/api/stream?station=${encodeURIComponent(station.id)}`;
+      return {
+        ...station,
+        streams: mode === "primary" ? [relayUrl, ...station.streams] : [...station.streams, relayUrl]
+      };
+    },
+    async handle(station, req, res) {
+      if (total() >= maxListeners) {
+        res.set("Retry-After", "30");
+        res.status(503).json({ error: "Stream relay is at capacity" });
+        return;
+      }
+
+      // Hold the slot while connecting so concurrent requests can't overshoot the cap
+      listeners.set(station.id, (listeners.get(station.id) || 0) + 1);
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        const count = (listeners.get(station.id) || 1) - 1;
+        if (count > 0) listeners.set(station.id, count);
+        else listeners.delete(station.id);
+      };
+
+      const controller = new AbortController();
+      res.on("close", () => {
+        controller.abort();
+        release();
+      });
+
+      const upstream = await connectUpstream(station, controller.signal);
+      if (!upstream) {
+        release();
+        if (!res.headersSent && !controller.signal.aborted) {
+          res.status(502).json({ error: "Stream unavailable" });
+        }
+        return;
+      }
+
+      // Pass ICY metadata through only to clients that asked for it, under our own station name
+      const metaint = Number(upstream.headers.get("icy-metaint")) || 0;
+      const wantsMetadata = req.get("Icy-MetaData") === "1" && metaint > 0;
+      res.writeHead(200, {
+        "Content-Type": upstream.headers.get("content-type") || "audio/mpeg",
+        "Cache-Control": "no-cache, no-store",
+        "X-Accel-Buffering": "no",
+        "icy-name": toHeaderValue(station.name),
+        ...(wantsMetadata ? { "icy-metaint": String(metaint) } : {})
+      });
+
+      const body = upstream.body;
+      body.on("error", () => res.end());
+      const audio = metaint > 0 && !wantsMetadata ? body.pipe(createIcyDemuxer(metaint)) : body;
+      audio.pipe(res);
+    },
+    stats: () => ({ mode, maxListeners, total: total(), listeners: Object.fromEntries(listeners) })
+  };
+}
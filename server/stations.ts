@@ -0,0 +1,58 @@
+import fs from "fs";
+import type { MetadataSource, Station } from "../src/types.ts";
+import { adapters } from "./metadata.ts";
+
+const DEFAULT_STATIONS: Station[] = [
+  {
+    id: "soundpop",
+    name: "SoundPop",
+    streams: ["https://streaming.fox.srv.br:8150/;", "https://streaming.fox.srv.br:8150/stream"],
+    metadata: [
+      { type: "centova", url: "https://streaming.fox.srv.br:2020/json/stream/8150" },
+      { type: "shoutcast-v2", url: "https://streaming.fox.srv.br:8150/stats?json=1" },
+      { type: "icecast", url: "https://streaming.fox.srv.br:8150/status-json.xsl" },
+      { type: "shoutcast-v2", url: "http://streaming.fox.srv.br:8150/stats?json=1" },
+      { type: "shoutcast-v1", url: "https://streaming.fox.srv.br:8150/7.html" },
+      { type: "icy", url: "https://streaming.fox.srv.br:8150/;" }
+    ],
+    logo: "/favicon.svg",
+    theme: "neon"
+  }
+];
+
+const isMetadataSource = (value: any): value is MetadataSource =>
+  value && typeof value.url === "string" && value.type in adapters;
+
+const isStation = (value: any): value is Station =>
+  value &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  Array.isArray(value.streams) && value.streams.length > 0 &&
+  (value.hls === undefined || typeof value.hls === "string") &&
+  (value.lowBitrateStreams === undefined || Array.isArray(value.lowBitrateStreams)) &&
+  Array.isArray(value.metadata) && value.metadata.every(isMetadataSource);
+
+// Stations can be overridden with a JSON file (an array of Station objects) via STATIONS_FILE
+export function loadStations(): Station[] {
+  const file = process.env.STATIONS_FILE;
+  if (!file) return DEFAULT_STATIONS;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+    const stations = Array.isArray(data) ? data.filter(isStation) : [];
+    if (stations.length === 0) {
+      console.warn(`No valid stations found in ${file}, using defaults`);
+      return DEFAULT_STATIONS;
+    }
+    return stations.map((station) => ({ ...station, theme: station.theme || "neon" }));
+  } catch (error) {
+    console.error(`Failed to load stations from ${file}:`, error instanceof Error ? error.message : String(error));
+    return DEFAULT_STATIONS;
+  }
+}
+
+// Falls back to the first station when no id is given
+export function findStation(stations: Station[], id?: unknown): Station | undefined {
+  if (!id) return stations[0];
+  return stations.find((station) => station.id === id);
+}
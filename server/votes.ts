@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import type { ChartEntry, ChartPeriod, Vote, VoteTally } from "../src/types.ts";
+import { trackKey } from "../src/lib/trackKey.ts";
+import { getDb } from "./db.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHART_PERIODS: Record<ChartPeriod, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS
+};
+
+const MAX_CHART_LIMIT = 50;
+
+// Device ids are generated by the browser; only a hash is stored
+const deviceKey = (device: string) => crypto.createHash("sha256").update(device).digest("hex");
+
+export function getVotes(station: string, artist: string, title: string, device?: string): VoteTally {
+  const key = trackKey(artist, title);
+  const { likes, dislikes } = getDb()
+    .prepare(`
+      SELECT COUNT(CASE WHEN vote = 1 THEN 1 END) AS likes, COUNT(CASE WHEN vote = -1 THEN 1 END) AS dislikes
+      FROM votes WHERE station = ? AND track_key = ?
+    `)
+    .get(station, key) as { likes: number; dislikes: number };
+  const mine = device
+    ? (getDb()
+        .prepare("SELECT vote FROM votes WHERE station = ? AND track_key = ? AND device = ?")
+        .get(station, key, deviceKey(device)) as { vote: Vote } | undefined)?.vote ?? 0
+    : 0;
+  return { likes, dislikes, mine };
+}
+
+// Each device has one vote per track: voting again replaces it, and 0 withdraws it
+export function castVote(station: string, artist: string, title: string, device: string, vote: Vote): VoteTally {
+  const key = trackKey(artist, title);
+  if (vote === 0) {
+    getDb()
+      .prepare("DELETE FROM votes WHERE station = ? AND track_key = ? AND device = ?")
+      .run(station, key, deviceKey(device));
+  } else {
+    getDb()
+      .prepare(`
+        INSERT OR REPLACE INTO votes (station, track_key, artist, title, device, vote, voted_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(station, key, artist.trim(), title.trim(), deviceKey(device), vote, Date.now());
+  }
+  return getVotes(station, artist, title, device);
+}
+
+// Tracks with the best like/dislike balance among votes cast in the period
+export function getCharts(station: string, period: ChartPeriod, limit = 20): ChartEntry[] {
+  const size = Math.min(Math.max(1, Math.floor(limit)), MAX_CHART_LIMIT);
+  return getDb()
+    .prepare(`
+      SELECT MAX(artist) AS artist, MAX(title) AS title,
+        COUNT(CASE WHEN vote = 1 THEN 1 END) AS likes,
+        COUNT(CASE WHEN vote = -1 THEN 1 END) AS dislikes,
+        SUM(vote) AS score
+      FROM votes
+      WHERE station = ? AND voted_at >= ?
+      GROUP BY track_key
+      HAVING likes > 0
+      ORDER BY score DESC, likes DESC, MAX(voted_at) DESC
+      LIMIT ?
+    `)
+    .all(station, Date.now() - CHART_PERIODS[period], size) as ChartEntry[];
+}
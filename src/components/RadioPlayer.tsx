@@ -1,59 +1,129 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, Volume2, VolumeX, Heart, Music, Radio, Loader2, Sparkles, FileText, Palette, X } from 'lucide-react';
+import { Play, Pause, Volume2, VolumeX, Heart, Music, Radio, Loader2, Sparkles, FileText, Palette, X, Gauge, Search, Download, ThumbsDown, Trophy, Moon, AlarmClock, SlidersHorizontal, MonitorDown, WifiOff, RefreshCw, Keyboard, Languages, Plus, Pencil, Upload, Trash2, ImageIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { GoogleGenAI } from "@google/genai";
+import type { ChartEntry, ChartPeriod, HistoryPage, LikedTrack, Locale, LyricLine, LyricsResult, NowPlaying, PlayedTrack, Station, Theme, Vote, VoteTally } from '../types';
+import { createPlaybackSupervisor, type PlaybackStatus, type PlaybackSupervisor } from '../lib/playbackSupervisor';
+import { getStreamSources } from '../lib/streamSources';
+import { downloadFile, likeKey, likesToCsv } from '../lib/likes';
+import { getDeviceId } from '../lib/device';
+import { formatCountdown, nextOccurrence } from '../lib/schedule';
+import { createVisualizer, VISUALIZER_MODES, type VisualizerColors, type VisualizerMode } from '../lib/visualizer';
+import { trapFocus } from '../lib/focusTrap';
+import { customThemeVariables, DEFAULT_CUSTOM_COLORS, isCustomThemeId, loadCustomThemes, MAX_THEME_NAME_LENGTH, newCustomThemeId, parseThemes, themesToJson, type CustomTheme, type CustomThemeColors, type CustomThemeId } from '../lib/customThemes';
+import { blendPalettes, extractCoverPalette } from '../lib/coverPalette';
+import { createTranslator, detectLocale, isMessageKey, LOCALES, type MessageKey, type Translate } from '../lib/i18n';
+import { isStandalone, needsManualInstall, type BeforeInstallPromptEvent } from '../lib/pwa';
+import { createAudioChain, DEFAULT_AUDIO_SETTINGS, EQ_PRESETS, type AudioChain, type AudioSettings, type EqPreset } from '../lib/audioChain';
+
+// Used until the catalog from /api/stations is loaded (or if it fails to load)
+const FALLBACK_STATION: Station = {
+  id: 'soundpop',
+  name: 'SoundPop',
+  streams: ['https://streaming.fox.srv.br:8150/;', 'https://streaming.fox.srv.br:8150/stream'],
+  metadata: [],
+  logo: '/favicon.svg',
+  theme: 'neon'
+};
+
+const CACHE_KEYS = {
+  METADATA: 'radio_metadata_cache',
+  THEME: 'radio_theme',
+  LIKED: 'radio_liked_tracks',
+  HISTORY: 'radio_history',
+  STATION: 'radio_station',
+  DATA_SAVER: 'radio_data_saver',
+  SLEEP_TIMER: 'radio_sleep_timer',
+  ALARM: 'radio_alarm',
+  AUDIO: 'radio_audio_settings',
+  VISUALIZER: 'radio_visualizer',
+  LOCALE: 'radio_locale',
+  CUSTOM_THEMES: 'radio_custom_themes',
+  COVER_THEME: 'radio_cover_theme'
+};
+
+const HISTORY_PAGE_SIZE = 20;
 
-const STREAM_URL = 'https://streaming.fox.srv.br:8150/;';
-const METADATA_URL = 'https://streaming.fox.srv.br:2020/json/stream/8150';
+const VOLUME_STEP = 5;
 
-const PROXIES = [
-  'https://api.allorigins.win/raw?url=',
-  'https://corsproxy.io/?',
-  'https://api.codetabs.com/v1/proxy?quest='
+// Keys named by a message (such as the space bar) are looked up in the catalog
+const SHORTCUTS: { keys: string[]; label: MessageKey }[] = [
+  { keys: ['shortcuts.space', 'K'], label: 'shortcuts.playPause' },
+  { keys: ['M'], label: 'shortcuts.mute' },
+  { keys: ['↑', '↓'], label: 'shortcuts.volume' },
+  { keys: ['L'], label: 'shortcuts.lyrics' },
+  { keys: ['H'], label: 'shortcuts.history' },
+  { keys: ['T'], label: 'shortcuts.themes' },
+  { keys: ['?'], label: 'shortcuts.help' },
+  { keys: ['Esc'], label: 'shortcuts.close' }
 ];
 
-const fetchWithFallback = async (url: string) => {
-  let lastError;
-  
-  // Try direct fetch first (no proxy)
-  try {
-    const response = await fetch(url, {
-      signal: AbortSignal.timeout(3000) // Fast check for direct access
-    });
-    if (response.ok) return await response.json();
-  } catch (e) {
-    console.warn("Direct fetch failed, trying proxies...");
-  }
+// Typing in these shouldn't trigger shortcuts
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Dialogs over the player card. Only one is open at a time, so the focus trap has a single target.
+type Popover = 'themes' | 'themeEditor' | 'audio' | 'timer' | 'stations' | 'shortcuts' | 'language';
+// Sections below the controls, also one at a time
+type Panel = 'lyrics' | 'history' | 'likes' | 'charts';
+
+// Frame interval for the visualizer when the listener prefers reduced motion
+const REDUCED_MOTION_FRAME_MS = 250;
+// How long the cover palette takes to blend into the next track's
+const COVER_TRANSITION_MS = 800;
+
+const SLEEP_PRESETS = [15, 30, 60];
+const SLEEP_FADE_MS = 30 * 1000;
+const ALARM_FADE_MS = 60 * 1000;
+// Without a recent tap, AudioContext.resume() can stay pending indefinitely
+const AUDIO_RESUME_TIMEOUT_MS = 2000;
+
+interface AlarmSettings {
+  // "HH:MM", local time
+  time: string;
+  enabled: boolean;
+}
 
-  for (const proxy of PROXIES) {
-    try {
-      const response = await fetch(`${proxy}${encodeURIComponent(url)}`, {
-        signal: AbortSignal.timeout(10000) // Increased to 10 seconds
-      });
-      if (response.ok) return await response.json();
-    } catch (e) {
-      lastError = e;
-      console.warn(`Proxy ${proxy} failed or timed out, trying next...`);
-      continue;
-    }
+const CHART_PERIODS: { id: ChartPeriod; label: MessageKey }[] = [
+  { id: 'day', label: 'charts.day' },
+  { id: 'week', label: 'charts.week' },
+  { id: 'month', label: 'charts.month' }
+];
+
+class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
   }
-  throw lastError || new Error('All fetch attempts failed');
-};
+}
 
-const CACHE_KEYS = {
-  METADATA: 'radio_metadata_cache',
-  LYRICS: 'radio_lyrics_cache',
-  THEME: 'radio_theme',
-  LIKED: 'radio_liked',
-  HISTORY: 'radio_history'
+// Gemini runs on the server; these routes answer 503 when AI is not configured and 429 when rate limited
+const postAi = async (path: 'insight' | 'translate', body: object) => {
+  const response = await fetch(`/api/ai/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new ApiError(data.error || `Status ${response.status}`, response.status);
+  return data;
 };
 
+// Metadata and history are cached separately for each station
+const stationCacheKey = (key: string, stationId: string) => `${key}:${stationId}`;
+
 interface RadioMetadata {
   songtitle: string;
   artist?: string;
   title?: string;
   cover?: string;
   status: 'online' | 'offline';
+  startedAt?: number;
+  listeners?: number;
+  peakListeners?: number;
+  bitrate?: number;
 }
 
 interface HistoryItem {
@@ -63,9 +133,29 @@ interface HistoryItem {
   timestamp: number;
 }
 
-type Theme = 'neon' | 'neon_soft' | 'dark' | 'pastel' | 'ocean';
+// e.g. "128 ouvintes agora · 128 kbps"
+const formatStreamStats = ({ listeners, bitrate }: RadioMetadata, t: Translate) => [
+  listeners !== undefined && t(listeners === 1 ? 'status.listenersOne' : 'status.listenersOther', { count: listeners }),
+  bitrate && `${bitrate} kbps`
+].filter(Boolean).join(' · ');
+
+const toHistoryItem = (track: PlayedTrack): HistoryItem => ({
+  songtitle: track.title,
+  artist: track.artist,
+  cover: track.cover,
+  timestamp: track.startedAt
+});
+
+// Plays from today show only the time; older ones also show the day
+const formatPlayedAt = (timestamp: number, locale: Locale) => {
+  const date = new Date(timestamp);
+  if (date.toDateString() === new Date().toDateString()) {
+    return date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
 
-const themes: Record<Theme, {
+interface ThemeStyle {
   bg: string;
   card: string;
   accent: string;
@@ -73,9 +163,12 @@ const themes: Record<Theme, {
   subtext: string;
   border: string;
   glow: string;
-  name: string;
   iconColor: string;
-}> = {
+  // Visualizer gradient, from the base of the bars to their tips
+  visualizer: VisualizerColors;
+}
+
+const themes: Record<Theme, ThemeStyle> = {
   neon: {
     bg: 'bg-[#020202]',
     card: 'bg-white/[0.05] backdrop-blur-3xl border-white/10',
@@ -84,8 +177,8 @@ const themes: Record<Theme, {
     subtext: 'text-white/50',
     border: 'border-white/20',
     glow: 'shadow-[0_0_25px_rgba(249,115,22,0.4)]',
-    name: 'Neon Vibrante',
-    iconColor: 'text-orange-400'
+    iconColor: 'text-orange-400',
+    visualizer: ['#f97316', '#e11d48']
   },
   neon_soft: {
     bg: 'bg-[#0f0f12]',
@@ -95,8 +188,8 @@ const themes: Record<Theme, {
     subtext: 'text-zinc-500',
     border: 'border-white/10',
     glow: 'shadow-[0_0_15px_rgba(249,115,22,0.2)]',
-    name: 'Neon Soft',
-    iconColor: 'text-orange-500/80'
+    iconColor: 'text-orange-500/80',
+    visualizer: ['#f97316', '#e11d48']
   },
   dark: {
     bg: 'bg-[#050505]',
@@ -106,8 +199,8 @@ const themes: Record<Theme, {
     subtext: 'text-zinc-500',
     border: 'border-zinc-800',
     glow: 'shadow-none',
-    name: 'Dark',
-    iconColor: 'text-zinc-400'
+    iconColor: 'text-zinc-400',
+    visualizer: ['#52525b', '#a1a1aa']
   },
   pastel: {
     bg: 'bg-[#fdfcf0]',
@@ -117,8 +210,8 @@ const themes: Record<Theme, {
     subtext: 'text-purple-600/60',
     border: 'border-purple-200',
     glow: 'shadow-[0_10px_30px_rgba(216,180,254,0.3)]',
-    name: 'Pastel',
-    iconColor: 'text-purple-500'
+    iconColor: 'text-purple-500',
+    visualizer: ['#d8b4fe', '#f9a8d4']
   },
   ocean: {
     bg: 'bg-[#001219]',
@@ -128,35 +221,75 @@ const themes: Record<Theme, {
     subtext: 'text-cyan-400/50',
     border: 'border-cyan-900/30',
     glow: 'shadow-[0_0_25px_rgba(34,211,238,0.15)]',
-    name: 'Oceano',
-    iconColor: 'text-cyan-400'
+    iconColor: 'text-cyan-400',
+    visualizer: ['#22d3ee', '#3b82f6']
   }
 };
 
+// Listener-made themes share one set of classes; the colours come from CSS variables set on the root
+const customThemeStyle = (colors: CustomThemeColors): ThemeStyle => ({
+  bg: 'bg-[var(--theme-bg)]',
+  card: 'bg-[var(--theme-card)] backdrop-blur-2xl border-[var(--theme-border)]',
+  accent: 'from-[var(--theme-accent-from)] to-[var(--theme-accent-to)]',
+  text: 'text-[var(--theme-text)]',
+  subtext: 'text-[var(--theme-subtext)]',
+  border: 'border-[var(--theme-border)]',
+  glow: 'shadow-[0_0_25px_var(--theme-glow)]',
+  iconColor: 'text-[var(--theme-accent-from)]',
+  visualizer: [colors.accentFrom, colors.accentTo]
+});
+
+const CUSTOM_COLOR_FIELDS: { key: keyof CustomThemeColors; label: MessageKey }[] = [
+  { key: 'background', label: 'editor.background' },
+  { key: 'card', label: 'editor.card' },
+  { key: 'accentFrom', label: 'editor.accentFrom' },
+  { key: 'accentTo', label: 'editor.accentTo' },
+  { key: 'text', label: 'editor.text' },
+  { key: 'glow', label: 'editor.glow' }
+];
+
 export default function RadioPlayer() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(80);
   const [isMuted, setIsMuted] = useState(false);
-  const [isLiked, setIsLiked] = useState(false);
+  const [likes, setLikes] = useState<LikedTrack[]>(() => {
+    if (typeof window === 'undefined') return [];
+    try {
+      return JSON.parse(localStorage.getItem(CACHE_KEYS.LIKED) || '[]');
+    } catch (e) {
+      console.error("Failed to parse liked songs", e);
+      return [];
+    }
+  });
+  const [likesQuery, setLikesQuery] = useState('');
+  const [myVote, setMyVote] = useState<Vote>(0);
+  const [chartPeriod, setChartPeriod] = useState<ChartPeriod>('week');
+  const [charts, setCharts] = useState<ChartEntry[]>([]);
+  const [isChartsLoading, setIsChartsLoading] = useState(false);
   const [metadata, setMetadata] = useState<RadioMetadata>({
-    songtitle: 'Carregando...',
+    songtitle: '',
     status: 'offline',
   });
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [playbackStatus, setPlaybackStatus] = useState<PlaybackStatus>({ state: 'idle', attempt: 0, maxAttempts: 0 });
   const [progress, setProgress] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const [isAiEnabled, setIsAiEnabled] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [showHistory, setShowHistory] = useState(false);
+  const [historyCursor, setHistoryCursor] = useState<number | null>(null);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
   const [lyrics, setLyrics] = useState<string | null>(null);
+  const [lyricsError, setLyricsError] = useState<'not-found' | 'failed' | null>(null);
+  const [syncedLyrics, setSyncedLyrics] = useState<LyricLine[] | null>(null);
+  const [activeLyricIndex, setActiveLyricIndex] = useState(-1);
   const [translatedLyrics, setTranslatedLyrics] = useState<string | null>(null);
   const [showTranslation, setShowTranslation] = useState(false);
   const [isTranslating, setIsTranslating] = useState(false);
-  const [showLyrics, setShowLyrics] = useState(false);
   const [isLyricsLoading, setIsLyricsLoading] = useState(false);
-  const [currentTheme, setCurrentTheme] = useState<Theme>(() => {
+  const [currentTheme, setCurrentTheme] = useState<Theme | CustomThemeId>(() => {
     if (typeof window === 'undefined') return 'neon';
     const savedAuto = localStorage.getItem('radio_auto_theme') === 'true';
     if (savedAuto) {
@@ -167,24 +300,143 @@ export default function RadioPlayer() {
       return 'dark';
     }
     const saved = localStorage.getItem(CACHE_KEYS.THEME);
+    if (saved && isCustomThemeId(saved)) return saved;
     return (saved && themes[saved as Theme]) ? (saved as Theme) : 'neon';
   });
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>(() => {
+    if (typeof window === 'undefined') return [];
+    return loadCustomThemes(localStorage.getItem(CACHE_KEYS.CUSTOM_THEMES));
+  });
+  // The theme in the editor popover; while the editor is open, the whole player previews it
+  const [themeDraft, setThemeDraft] = useState<CustomTheme | null>(null);
   const [isAutoTheme, setIsAutoTheme] = useState(() => {
     if (typeof window === 'undefined') return false;
     return localStorage.getItem('radio_auto_theme') === 'true';
   });
-  const [showThemeSelector, setShowThemeSelector] = useState(false);
+  // "Automático pela capa": colours extracted from the cover art of the track on air
+  const [isCoverTheme, setIsCoverTheme] = useState(() => {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem(CACHE_KEYS.COVER_THEME) === 'true';
+  });
+  // The palette on screen, mid-transition while blending to a new cover; null falls back to the active theme
+  const [coverPalette, setCoverPalette] = useState<CustomThemeColors | null>(null);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>(() => {
+    if (typeof window === 'undefined') return 'bars';
+    const saved = localStorage.getItem(CACHE_KEYS.VISUALIZER);
+    return VISUALIZER_MODES.includes(saved as VisualizerMode) ? (saved as VisualizerMode) : 'bars';
+  });
+  const [stations, setStations] = useState<Station[]>([FALLBACK_STATION]);
+  const [stationId, setStationId] = useState(() => {
+    if (typeof window === 'undefined') return FALLBACK_STATION.id;
+    return localStorage.getItem(CACHE_KEYS.STATION) || FALLBACK_STATION.id;
+  });
+  const [openPopover, setOpenPopover] = useState<Popover | null>(null);
+  const [openPanel, setOpenPanel] = useState<Panel | null>(null);
+  const showThemeSelector = openPopover === 'themes';
+  const showAudioPanel = openPopover === 'audio';
+  const showTimerPanel = openPopover === 'timer';
+  const showStationSelector = openPopover === 'stations';
+  const showShortcuts = openPopover === 'shortcuts';
+  const showLanguageSelector = openPopover === 'language';
+  const showLyrics = openPanel === 'lyrics';
+  const showHistory = openPanel === 'history';
+  const showLikes = openPanel === 'likes';
+  const showCharts = openPanel === 'charts';
+  const [locale, setLocale] = useState<Locale>(() => {
+    if (typeof window === 'undefined') return 'pt-BR';
+    return detectLocale(localStorage.getItem(CACHE_KEYS.LOCALE));
+  });
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => {
+    if (typeof window === 'undefined') return DEFAULT_AUDIO_SETTINGS;
+    try {
+      return { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(localStorage.getItem(CACHE_KEYS.AUDIO) || '{}') };
+    } catch {
+      return DEFAULT_AUDIO_SETTINGS;
+    }
+  });
+  // When the sleep timer stops playback (ms since epoch)
+  const [sleepEndsAt, setSleepEndsAt] = useState<number | null>(() => {
+    if (typeof window === 'undefined') return null;
+    const saved = Number(localStorage.getItem(CACHE_KEYS.SLEEP_TIMER));
+    return saved > Date.now() ? saved : null;
+  });
+  const [customSleepMinutes, setCustomSleepMinutes] = useState('');
+  const [alarm, setAlarm] = useState<AlarmSettings>(() => {
+    if (typeof window === 'undefined') return { time: '07:00', enabled: false };
+    try {
+      return JSON.parse(localStorage.getItem(CACHE_KEYS.ALARM) || '') as AlarmSettings;
+    } catch {
+      return { time: '07:00', enabled: false };
+    }
+  });
+  const [clock, setClock] = useState(() => Date.now());
+  const [isDataSaver, setIsDataSaver] = useState(() => {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem(CACHE_KEYS.DATA_SAVER) === 'true';
+  });
+  const [isOffline, setIsOffline] = useState(() => typeof navigator !== 'undefined' && !navigator.onLine);
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+  const [canInstallManually, setCanInstallManually] = useState(false);
   const [toast, setToast] = useState<{ message: string; icon?: React.ReactNode } | null>(null);
   const toastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const theme = themes[currentTheme];
+  // The editor preview wins over the cover palette, which wins over the selected theme. A custom theme
+  // that was deleted (or came from another device) falls back to the default.
+  const activeDraft = openPopover === 'themeEditor' ? themeDraft : null;
+  const customColors = activeDraft?.colors ?? coverPalette ?? customThemes.find(c => c.id === currentTheme)?.colors;
+  const theme = customColors ? customThemeStyle(customColors) : themes[currentTheme as Theme] ?? themes.neon;
+  const t = createTranslator(locale);
+  const station = stations.find(s => s.id === stationId) || stations[0];
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const audioChainRef = useRef<AudioChain | null>(null);
+  // Output gain used for the sleep timer fade-out and the alarm fade-in
+  const fadeGainRef = useRef<GainNode | null>(null);
+  const supervisorRef = useRef<PlaybackSupervisor | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const lyricsContainerRef = useRef<HTMLDivElement | null>(null);
+  const themeSelectorRef = useRef<HTMLDivElement | null>(null);
+  const audioPanelRef = useRef<HTMLDivElement | null>(null);
+  const timerPanelRef = useRef<HTMLDivElement | null>(null);
+  const stationSelectorRef = useRef<HTMLDivElement | null>(null);
+  const shortcutsRef = useRef<HTMLDivElement | null>(null);
+  const languageSelectorRef = useRef<HTMLDivElement | null>(null);
+  const themeEditorRef = useRef<HTMLDivElement | null>(null);
+  const themeImportRef = useRef<HTMLInputElement | null>(null);
+  const popoverRefs: Record<Popover, React.RefObject<HTMLDivElement | null>> = {
+    themes: themeSelectorRef,
+    themeEditor: themeEditorRef,
+    audio: audioPanelRef,
+    timer: timerPanelRef,
+    stations: stationSelectorRef,
+    shortcuts: shortcutsRef,
+    language: languageSelectorRef
+  };
+
+  // Opening a popover replaces the one that was open; toggling the open one closes it
+  const togglePopover = (popover: Popover) => setOpenPopover(current => (current === popover ? null : popover));
+  const closePopover = () => setOpenPopover(null);
+  // Panels replace each other the same way and dismiss any popover
+  const togglePanel = (panel: Panel) => {
+    setOpenPanel(current => (current === panel ? null : panel));
+    closePopover();
+  };
+  const closePanel = (panel: Panel) => setOpenPanel(current => (current === panel ? null : current));
+  // For callbacks that outlive a render, such as the playback supervisor and the alarm
+  const translateRef = useRef(t);
+  translateRef.current = t;
+  const coverPaletteRef = useRef(coverPalette);
+  coverPaletteRef.current = coverPalette;
+  // Read by the running visualizer loop, so colour changes don't restart it
+  const visualizerColorsRef = useRef<VisualizerColors>(theme.visualizer);
+  visualizerColorsRef.current = theme.visualizer;
+  const lyricLineRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+  // Difference between the server clock (which stamps track start times) and ours
+  const clockOffsetRef = useRef(0);
 
   const showToast = (message: string, icon?: React.ReactNode) => {
     if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
@@ -194,7 +446,7 @@ export default function RadioPlayer() {
 
   // Initialize Audio
   useEffect(() => {
-    audioRef.current = new Audio(STREAM_URL);
+    audioRef.current = new Audio();
     audioRef.current.crossOrigin = "anonymous";
     audioRef.current.volume = volume / 100;
     
@@ -212,90 +464,88 @@ export default function RadioPlayer() {
         setDuration(audioRef.current.duration);
       }
     };
-    const handleError = () => {
-      setMetadata(prev => ({ ...prev, status: 'offline' }));
-      setIsLoading(false);
-    };
 
     audioRef.current.addEventListener('canplay', handleCanPlay);
     audioRef.current.addEventListener('timeupdate', handleTimeUpdate);
     audioRef.current.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audioRef.current.addEventListener('error', handleError);
+
+    // Errors, stalls and silence are handled by reconnecting rather than giving up
+    supervisorRef.current = createPlaybackSupervisor({
+      audio: audioRef.current,
+      getAnalyser: () => analyserRef.current,
+      onStatus: (status) => {
+        setPlaybackStatus(status);
+        if (status.state === 'connecting' || status.state === 'reconnecting') {
+          setIsLoading(true);
+        } else {
+          setIsLoading(false);
+        }
+        if (status.state === 'failed') {
+          setIsPlaying(false);
+          // Browsers refuse to start audio without a recent tap, e.g. an alarm after a reload
+          showToast(translateRef.current(status.reason === 'not-allowed' ? 'toast.tapToPlay' : 'toast.connectFailed'), <X size={14} />);
+        }
+      }
+    });
 
     return () => {
+      supervisorRef.current?.dispose();
+      supervisorRef.current = null;
       if (audioRef.current) {
         audioRef.current.pause();
         audioRef.current.removeEventListener('canplay', handleCanPlay);
         audioRef.current.removeEventListener('timeupdate', handleTimeUpdate);
         audioRef.current.removeEventListener('loadedmetadata', handleLoadedMetadata);
-        audioRef.current.removeEventListener('error', handleError);
         audioRef.current = null;
       }
     };
   }, []);
 
-  // Visualizer Animation
+  // Visualizer Animation: stops while the tab is hidden and drops to a few frames per second
+  // when the listener prefers reduced motion
   useEffect(() => {
-    if (!isPlaying || !analyserRef.current || !canvasRef.current) {
+    const stop = () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    };
+
+    if (!isPlaying || !analyserRef.current || !canvasRef.current) {
+      stop();
       return;
     }
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const analyser = analyserRef.current;
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const visualizer = createVisualizer(canvasRef.current, analyserRef.current);
+    const reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)');
+    let lastFrame = 0;
 
-    const draw = () => {
+    const draw = (time: number) => {
       animationFrameRef.current = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
-
-      const width = canvas.width;
-      const height = canvas.height;
-      ctx.clearRect(0, 0, width, height);
-
-      const barWidth = (width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
-
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = (dataArray[i] / 255) * height;
-
-        // Use theme colors for the visualizer
-        const gradient = ctx.createLinearGradient(0, height, 0, 0);
-        if (currentTheme === 'pastel') {
-          gradient.addColorStop(0, '#d8b4fe');
-          gradient.addColorStop(1, '#f9a8d4');
-        } else if (currentTheme === 'ocean') {
-          gradient.addColorStop(0, '#22d3ee');
-          gradient.addColorStop(1, '#3b82f6');
-        } else if (currentTheme === 'dark') {
-          gradient.addColorStop(0, '#52525b');
-          gradient.addColorStop(1, '#a1a1aa');
-        } else {
-          gradient.addColorStop(0, '#f97316');
-          gradient.addColorStop(1, '#e11d48');
-        }
-
-        ctx.fillStyle = gradient;
-        ctx.fillRect(x, height - barHeight, barWidth, barHeight);
-
-        x += barWidth + 1;
-      }
+      if (reducedMotion.matches && time - lastFrame < REDUCED_MOTION_FRAME_MS) return;
+      lastFrame = time;
+      visualizer.draw(visualizerMode, visualizerColorsRef.current);
+    };
+    const start = () => {
+      if (!animationFrameRef.current) animationFrameRef.current = requestAnimationFrame(draw);
     };
+    const handleVisibilityChange = () => (document.hidden ? stop() : start());
 
-    draw();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (!document.hidden) start();
     return () => {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      stop();
     };
-  }, [isPlaying, currentTheme]);
+  }, [isPlaying, visualizerMode]);
 
-  // Handle Play/Pause
-  const togglePlay = async () => {
+  const startStream = (target: Station, dataSaver: boolean) => {
     if (!audioRef.current) return;
+    supervisorRef.current?.start(getStreamSources(target, audioRef.current, dataSaver), dataSaver);
+  };
+
+  // Builds the audio graph on first play and wakes the context. Resolves false when the browser keeps
+  // the context suspended because there was no recent user gesture, e.g. an alarm after a reload.
+  const prepareAudio = async (): Promise<boolean> => {
+    if (!audioRef.current) return false;
 
     // Initialize Audio Context on first play
     if (!audioContextRef.current) {
@@ -303,31 +553,257 @@ export default function RadioPlayer() {
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         audioContextRef.current = new AudioContextClass();
         analyserRef.current = audioContextRef.current.createAnalyser();
-        analyserRef.current.fftSize = 64; // Smaller for simple equalizer
+        analyserRef.current.fftSize = 256; // Enough bins for the spectrum modes and a smooth waveform
+        
+        audioChainRef.current = createAudioChain(audioContextRef.current);
+        audioChainRef.current.apply(audioSettings);
+        fadeGainRef.current = audioContextRef.current.createGain();
         
         sourceRef.current = audioContextRef.current.createMediaElementSource(audioRef.current);
         sourceRef.current.connect(analyserRef.current);
-        analyserRef.current.connect(audioContextRef.current.destination);
+        // The analyser sits before the EQ and fade so the visualizer and silence watchdog see the real signal
+        analyserRef.current.connect(audioChainRef.current.input);
+        audioChainRef.current.output.connect(fadeGainRef.current);
+        fadeGainRef.current.connect(audioContextRef.current.destination);
       } catch (e) {
         console.error("Audio Context initialization failed:", e);
       }
     }
 
-    if (audioContextRef.current?.state === 'suspended') {
-      await audioContextRef.current.resume();
+    const context = audioContextRef.current;
+    if (context?.state === 'suspended') {
+      await Promise.race([
+        context.resume(),
+        new Promise((resolve) => setTimeout(resolve, AUDIO_RESUME_TIMEOUT_MS))
+      ]);
+    }
+    return context?.state !== 'suspended';
+  };
+
+  // Starts the stream with the output gain fading in over fadeInMs. The fade is scheduled only once
+  // the context is running, so nothing later resets it. Resolves false when audio wasn't allowed.
+  const startPlayback = async (fadeInMs = 0): Promise<boolean> => {
+    if (!(await prepareAudio())) {
+      setIsPlaying(false);
+      showToast(translateRef.current('toast.tapToPlay'), <X size={14} />);
+      return false;
     }
+    // Also undoes a sleep timer fade that was interrupted by pausing
+    rampVolume(1, fadeInMs, fadeInMs > 0 ? 0 : 1);
+    startStream(station, isDataSaver);
+    setIsPlaying(true);
+    return true;
+  };
+
+  // Handle Play/Pause
+  const togglePlay = async () => {
+    if (!audioRef.current) return;
 
+    // For live streams, it's better to drop the connection on pause to avoid lag when resuming
     if (isPlaying) {
-      audioRef.current.pause();
-      // For live streams, it's better to reset the source on pause to avoid lag when resuming
-      audioRef.current.src = "";
+      supervisorRef.current?.stop();
+      setIsPlaying(false);
     } else {
-      setIsLoading(true);
-      audioRef.current.src = STREAM_URL;
-      audioRef.current.load();
-      audioRef.current.play().catch(err => console.error("Playback error:", err));
+      await startPlayback();
     }
-    setIsPlaying(!isPlaying);
+  };
+
+  // Media Session handlers are registered once, so they read the latest state through this ref
+  const mediaControlsRef = useRef({ isPlaying, togglePlay, startPlayback });
+  mediaControlsRef.current = { isPlaying, togglePlay, startPlayback };
+
+  // Ramps the output gain over durationMs, optionally starting from a given level
+  const rampVolume = (to: number, durationMs: number, from?: number) => {
+    const context = audioContextRef.current;
+    const gain = fadeGainRef.current?.gain;
+    if (!context || !gain) return;
+    const now = context.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(from ?? gain.value, now);
+    gain.linearRampToValueAtTime(to, now + durationMs / 1000);
+  };
+
+  const startSleepTimer = (minutes: number) => {
+    if (!Number.isFinite(minutes) || minutes <= 0) return;
+    const endsAt = Date.now() + minutes * 60 * 1000;
+    setSleepEndsAt(endsAt);
+    localStorage.setItem(CACHE_KEYS.SLEEP_TIMER, String(endsAt));
+    setCustomSleepMinutes('');
+    showToast(t('toast.sleepIn', { count: minutes }), <Moon size={14} />);
+  };
+
+  const cancelSleepTimer = () => {
+    setSleepEndsAt(null);
+    localStorage.removeItem(CACHE_KEYS.SLEEP_TIMER);
+    rampVolume(1, 500);
+  };
+
+  const saveAlarm = (next: AlarmSettings) => {
+    setAlarm(next);
+    localStorage.setItem(CACHE_KEYS.ALARM, JSON.stringify(next));
+  };
+
+  // Sleep timer: fade out over the last seconds, then stop
+  useEffect(() => {
+    if (!sleepEndsAt) return;
+
+    const fadeTimeout = setTimeout(() => {
+      if (mediaControlsRef.current.isPlaying) rampVolume(0, Math.min(SLEEP_FADE_MS, sleepEndsAt - Date.now()));
+    }, Math.max(0, sleepEndsAt - SLEEP_FADE_MS - Date.now()));
+    const stopTimeout = setTimeout(() => {
+      if (mediaControlsRef.current.isPlaying) mediaControlsRef.current.togglePlay();
+      rampVolume(1, 0, 1);
+      setSleepEndsAt(null);
+      localStorage.removeItem(CACHE_KEYS.SLEEP_TIMER);
+    }, Math.max(0, sleepEndsAt - Date.now()));
+
+    return () => {
+      clearTimeout(fadeTimeout);
+      clearTimeout(stopTimeout);
+    };
+  }, [sleepEndsAt]);
+
+  // Wake-up alarm: start the stream at the chosen time and fade it in. The page has to stay open.
+  useEffect(() => {
+    if (!alarm.enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+    const arm = () => {
+      timeout = setTimeout(() => {
+        if (!mediaControlsRef.current.isPlaying) {
+          // When the browser refuses audio, startPlayback asks for a tap instead
+          mediaControlsRef.current.startPlayback(ALARM_FADE_MS).then((started) => {
+            if (started) showToast(translateRef.current('toast.goodMorning'), <AlarmClock size={14} />);
+          });
+        }
+        arm();
+      }, nextOccurrence(alarm.time) - Date.now());
+    };
+    arm();
+
+    return () => clearTimeout(timeout);
+  }, [alarm]);
+
+  // Ticks the sleep timer countdown while its panel is open
+  useEffect(() => {
+    if (!sleepEndsAt || !showTimerPanel) return;
+    setClock(Date.now());
+    const interval = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepEndsAt, showTimerPanel]);
+
+  // Keyboard Shortcuts: the handler is rebuilt every render so it sees the current state
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || isTextField(e.target)) return;
+
+    const key = e.key.toLowerCase();
+    // Space on a focused button already clicks it
+    if (key === ' ' && e.target instanceof HTMLElement && e.target.closest('button, a')) return;
+
+    const actions: Record<string, () => void> = {
+      ' ': togglePlay,
+      k: togglePlay,
+      m: toggleMute,
+      arrowup: () => changeVolume(volume + VOLUME_STEP),
+      arrowright: () => changeVolume(volume + VOLUME_STEP),
+      arrowdown: () => changeVolume(volume - VOLUME_STEP),
+      arrowleft: () => changeVolume(volume - VOLUME_STEP),
+      l: toggleLyricsPanel,
+      h: toggleHistoryPanel,
+      t: toggleThemeSelector,
+      '?': toggleShortcutHelp
+    };
+    const action = actions[key];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Focus Trap: keyboard focus stays in the open popover until it closes
+  useEffect(() => {
+    const container = openPopover && popoverRefs[openPopover].current;
+    if (!container) return;
+    return trapFocus(container, closePopover);
+  }, [openPopover]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Media Session: lock screen, notification and hardware media key controls
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const play = () => {
+      if (!mediaControlsRef.current.isPlaying) mediaControlsRef.current.togglePlay();
+    };
+    const pause = () => {
+      if (mediaControlsRef.current.isPlaying) mediaControlsRef.current.togglePlay();
+    };
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', play],
+      ['pause', pause],
+      ['stop', pause],
+      // A live stream can't seek or skip
+      ['seekbackward', null],
+      ['seekforward', null],
+      ['previoustrack', null],
+      ['nexttrack', null]
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch (e) {
+        // Older browsers throw for actions they don't know
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch (e) {
+          // Same as above
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || typeof MediaMetadata === 'undefined') return;
+    if (!metadata.songtitle) return;
+
+    const artwork = metadata.cover || station.logo;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: metadata.songtitle,
+      artist: metadata.artist || station.name,
+      album: station.name,
+      artwork: artwork ? [{ src: new URL(artwork, window.location.href).href }] : []
+    });
+  }, [metadata.songtitle, metadata.artist, metadata.cover, station]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying]);
+
+  // Equalizer, compressor and mono settings
+  useEffect(() => {
+    audioChainRef.current?.apply(audioSettings);
+  }, [audioSettings]);
+
+  const updateAudioSettings = (changes: Partial<AudioSettings>) => {
+    const next = { ...audioSettings, ...changes };
+    setAudioSettings(next);
+    localStorage.setItem(CACHE_KEYS.AUDIO, JSON.stringify(next));
   };
 
   // Handle Volume
@@ -337,134 +813,287 @@ export default function RadioPlayer() {
     }
   }, [volume, isMuted]);
 
-  // Fetch Metadata
+  // AI features are only shown when the server has Gemini configured
   useEffect(() => {
-    const fetchMetadata = async () => {
+    const fetchAiStatus = async () => {
       try {
-        const data = await fetchWithFallback(METADATA_URL);
-        
-        const songtitle = data.nowplaying || data.songtitle;
-        
-        if (songtitle) {
-          const [artistName, ...songParts] = songtitle.split(' - ');
-          const songTitle = songParts.join(' - ') || songtitle;
-          const artist = artistName || 'SoundPop';
+        const response = await fetch('/api/ai/status');
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const data = await response.json();
+        setIsAiEnabled(Boolean(data.enabled));
+      } catch (error) {
+        console.error('AI status fetch error:', error);
+      }
+    };
 
-          let coverUrl = data.coverart || undefined;
-          
-          if (!coverUrl) {
-            try {
-              const query = encodeURIComponent(`${artist} ${songTitle}`);
-              const itunesRes = await fetch(`https://itunes.apple.com/search?term=${query}&media=music&limit=1`);
-              const itunesData = await itunesRes.json();
-              
-              if (itunesData.results && itunesData.results.length > 0) {
-                const result = itunesData.results[0];
-                const baseUrl = result.artworkUrl100;
-                
-                // iTunes artwork URL pattern is very predictable. 
-                // Replacing 100x100 with 1000x1000bb usually works for highest quality.
-                coverUrl = baseUrl.replace('100x100', '1000x1000bb');
-              } else {
-                try {
-                  const deezerRes = await fetch(`https://api.deezer.com/search?q=artist:"${artist}" track:"${songTitle}"&limit=1`);
-                  const deezerData = await deezerRes.json();
-                  if (deezerData.data && deezerData.data.length > 0) {
-                    const track = deezerData.data[0];
-                    coverUrl = track.album.cover_xl || track.album.cover_big || track.album.cover_medium;
-                  }
-                } catch (de) {
-                  console.log('Deezer fallback failed');
-                }
-              }
-            } catch (e) {
-              console.error('Error fetching cover:', e);
-            }
-          }
-
-          const newMetadata: RadioMetadata = {
-            songtitle: songTitle,
-            artist: artist,
-            status: 'online',
-            cover: coverUrl
-          };
-
-          setMetadata(newMetadata);
-          localStorage.setItem(CACHE_KEYS.METADATA, JSON.stringify(newMetadata));
-
-          // Reset lyrics when song changes
-          setLyrics(null);
-          setTranslatedLyrics(null);
-          setShowLyrics(false);
-          setShowTranslation(false);
-
-          if (data.trackhistory && Array.isArray(data.trackhistory)) {
-            const apiHistory = data.trackhistory.map((item: string, index: number) => {
-              const [hArtist, ...hSongParts] = item.split(' - ');
-              const hSongTitle = hSongParts.join(' - ') || item;
-              return {
-                songtitle: hSongTitle,
-                artist: hArtist || 'SoundPop',
-                cover: data.covers && data.covers[index] ? data.covers[index] : undefined,
-                timestamp: Date.now() - (index + 1) * 300000
-              };
-            });
-
-            // Ensure current song is at the top
-            const filteredApiHistory = apiHistory.filter(item => 
-              !(item.songtitle === songTitle && item.artist === artist)
-            );
-
-            const currentItem: HistoryItem = {
-              songtitle: songTitle,
-              artist: artist,
-              cover: coverUrl,
-              timestamp: Date.now()
-            };
-
-            const finalHistory = [currentItem, ...filteredApiHistory].slice(0, 15);
-            setHistory(finalHistory);
-            localStorage.setItem(CACHE_KEYS.HISTORY, JSON.stringify(finalHistory));
-          } else {
-            setHistory(prev => {
-              // Check if song is already at the top to avoid unnecessary updates
-              if (prev[0] && prev[0].songtitle === songTitle && prev[0].artist === artist) {
-                return prev;
-              }
-
-              // Remove the song if it exists elsewhere in the history
-              const filteredHistory = prev.filter(item => 
-                !(item.songtitle === songTitle && item.artist === artist)
-              );
-
-              const newItem: HistoryItem = {
-                songtitle: songTitle,
-                artist: artist,
-                cover: coverUrl,
-                timestamp: Date.now()
-              };
-
-              const updatedHistory = [newItem, ...filteredHistory].slice(0, 15);
-              localStorage.setItem(CACHE_KEYS.HISTORY, JSON.stringify(updatedHistory));
-              return updatedHistory;
-            });
-          }
+    fetchAiStatus();
+  }, []);
+
+  // Connectivity & Install Prompt
+  useEffect(() => {
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    const handleInstallPrompt = (e: Event) => {
+      // Keep the browser's mini-infobar away; the header button shows the prompt instead
+      e.preventDefault();
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => {
+      setInstallPrompt(null);
+      showToast(translateRef.current('toast.installed'), <MonitorDown size={14} />);
+    };
+
+    setCanInstallManually(needsManualInstall());
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('beforeinstallprompt', handleInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  // Load Station Catalog
+  useEffect(() => {
+    const fetchStations = async () => {
+      try {
+        const response = await fetch('/api/stations');
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const data: Station[] = await response.json();
+        if (Array.isArray(data) && data.length > 0) setStations(data);
+      } catch (error) {
+        console.error('Station catalog fetch error:', error);
+      }
+    };
+
+    fetchStations();
+  }, []);
+
+  // Now Playing: pushed by the server over SSE, polled only when SSE is unavailable
+  useEffect(() => {
+    let cancelled = false;
+    let lastSongtitle: string | null = null;
+    let eventSource: EventSource | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    const metadataKey = stationCacheKey(CACHE_KEYS.METADATA, station.id);
+    const historyKey = stationCacheKey(CACHE_KEYS.HISTORY, station.id);
+
+    const applyNowPlaying = (data: NowPlaying) => {
+      const stats = {
+        listeners: data.listeners,
+        peakListeners: data.peakListeners,
+        bitrate: data.bitrate,
+        status: data.online === false ? 'offline' as const : 'online' as const
+      };
+
+      // Polling returns the same track most of the time; only refresh the stats then. A snapshot without
+      // a track means the server never reached the upstream, so the restored track stays, shown offline.
+      if (!data.songtitle || data.songtitle === lastSongtitle) {
+        setMetadata(prev => ({ ...prev, ...stats }));
+        return;
+      }
+      lastSongtitle = data.songtitle;
+
+      const artist = data.artist;
+      const songTitle = data.title;
+      // Covers are resolved and cached by the server
+      const coverUrl = data.cover;
+
+      const newMetadata: RadioMetadata = {
+        songtitle: songTitle,
+        artist: artist,
+        cover: coverUrl,
+        startedAt: data.startedAt,
+        ...stats
+      };
+
+      setMetadata(newMetadata);
+      localStorage.setItem(metadataKey, JSON.stringify(newMetadata));
+
+      // Reset lyrics when song changes
+      setLyrics(null);
+      setLyricsError(null);
+      setSyncedLyrics(null);
+      setTranslatedLyrics(null);
+      closePanel('lyrics');
+      setShowTranslation(false);
+
+      setHistory(prev => {
+        // Check if song is already at the top to avoid unnecessary updates
+        if (prev[0] && prev[0].songtitle === songTitle && prev[0].artist === artist) {
+          return prev;
         }
+
+        const newItem: HistoryItem = {
+          songtitle: songTitle,
+          artist: artist,
+          cover: coverUrl,
+          timestamp: data.startedAt ?? Date.now()
+        };
+
+        const updatedHistory = [newItem, ...prev];
+        localStorage.setItem(historyKey, JSON.stringify(updatedHistory.slice(0, HISTORY_PAGE_SIZE)));
+        return updatedHistory;
+      });
+    };
+
+    const fetchMetadata = async () => {
+      try {
+        const response = await fetch(`/api/radio-stats?station=${encodeURIComponent(station.id)}`);
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const data: NowPlaying = await response.json();
+        if (cancelled) return;
+        applyNowPlaying(data);
       } catch (error) {
+        if (cancelled) return;
         console.error('Metadata fetch error:', error);
+        lastSongtitle = null;
+        // No artist marks this as a placeholder: it can't be liked, voted on or looked up
         setMetadata(prev => ({
           ...prev,
-          status: 'online',
-          songtitle: 'Erro ao carregar metadados',
-          artist: 'SoundPop'
+          status: 'offline',
+          listeners: undefined,
+          songtitle: translateRef.current('player.metadataError'),
+          artist: ''
         }));
       }
     };
 
-    fetchMetadata();
-    const interval = setInterval(fetchMetadata, 10000);
+    const startPolling = () => {
+      if (interval) return;
+      fetchMetadata();
+      interval = setInterval(fetchMetadata, 10000);
+    };
+
+    if (typeof EventSource !== 'undefined') {
+      let opened = false;
+      eventSource = new EventSource(`/api/now-playing/stream?station=${encodeURIComponent(station.id)}`);
+      eventSource.onopen = () => {
+        opened = true;
+      };
+      eventSource.onmessage = (event) => {
+        try {
+          applyNowPlaying(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Invalid now playing event:', error);
+        }
+      };
+      eventSource.onerror = () => {
+        // Once connected the browser reconnects on its own; give up on SSE only if it never worked
+        if (!opened || eventSource?.readyState === EventSource.CLOSED) {
+          eventSource?.close();
+          eventSource = null;
+          startPolling();
+        }
+      };
+    } else {
+      startPolling();
+    }
+
+    return () => {
+      cancelled = true;
+      eventSource?.close();
+      if (interval) clearInterval(interval);
+    };
+  }, [station]);
+
+  // Synced Lyrics: follow the track position derived from when the server saw the track start
+  useEffect(() => {
+    setActiveLyricIndex(-1);
+    if (!showLyrics || showTranslation || !syncedLyrics || !metadata.startedAt) return;
+
+    const startedAt = metadata.startedAt;
+    const updateActiveLine = () => {
+      const position = Date.now() + clockOffsetRef.current - startedAt;
+      let index = -1;
+      while (index + 1 < syncedLyrics.length && syncedLyrics[index + 1].time <= position) index++;
+      setActiveLyricIndex(index);
+    };
+
+    updateActiveLine();
+    const interval = setInterval(updateActiveLine, 250);
     return () => clearInterval(interval);
-  }, []);
+  }, [showLyrics, showTranslation, syncedLyrics, metadata.startedAt]);
+
+  // Keep the highlighted line centered in the lyrics panel
+  useEffect(() => {
+    const container = lyricsContainerRef.current;
+    const line = lyricLineRefs.current[activeLyricIndex];
+    if (!container || !line) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth'
+    });
+  }, [activeLyricIndex]);
+
+  // Play History: the server records every track change with its real start time
+  const loadHistory = async (to?: number) => {
+    const historyKey = stationCacheKey(CACHE_KEYS.HISTORY, station.id);
+    setIsHistoryLoading(true);
+    try {
+      const params = new URLSearchParams({ station: station.id, limit: String(HISTORY_PAGE_SIZE) });
+      if (to) params.set('to', String(to));
+      const response = await fetch(`/api/history?${params}`);
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+      const page: HistoryPage = await response.json();
+      const items = page.items.map(toHistoryItem);
+
+      setHistory(prev => to ? [...prev, ...items] : items);
+      setHistoryCursor(page.next);
+      if (!to) localStorage.setItem(historyKey, JSON.stringify(items));
+    } catch (error) {
+      console.error('History fetch error:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setHistoryCursor(null);
+    if (showHistory) loadHistory();
+  }, [showHistory, station.id]);
+
+  // This device's vote on the track on air
+  useEffect(() => {
+    setMyVote(0);
+    if (!metadata.artist) return;
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ station: station.id, artist: metadata.artist, title: metadata.songtitle });
+    fetch(`/api/votes?${params}`, { headers: { 'X-Device-Id': getDeviceId() }, signal: controller.signal })
+      .then(response => response.ok ? response.json() : null)
+      .then((tally: VoteTally | null) => {
+        if (tally) setMyVote(tally.mine);
+      })
+      .catch(() => {});
+    return () => controller.abort();
+  }, [station.id, metadata.artist, metadata.songtitle]);
+
+  // Most liked tracks, as voted by all listeners
+  useEffect(() => {
+    if (!showCharts) return;
+
+    let cancelled = false;
+    setIsChartsLoading(true);
+    fetch(`/api/charts?${new URLSearchParams({ station: station.id, period: chartPeriod })}`)
+      .then(response => {
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        return response.json();
+      })
+      .then((data: { items: ChartEntry[] }) => {
+        if (!cancelled) setCharts(data.items);
+      })
+      .catch(error => console.error('Charts fetch error:', error))
+      .finally(() => {
+        if (!cancelled) setIsChartsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showCharts, chartPeriod, station.id]);
 
   // Progress Bar Animation (Fake for live streams, real for files)
   useEffect(() => {
@@ -483,29 +1112,30 @@ export default function RadioPlayer() {
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  // Like & History & Metadata Persistence
+  // History & Metadata Persistence (per station)
   useEffect(() => {
-    const savedLike = localStorage.getItem(CACHE_KEYS.LIKED);
-    if (savedLike === 'true') setIsLiked(true);
-
-    const savedHistory = localStorage.getItem(CACHE_KEYS.HISTORY);
+    let restoredHistory: HistoryItem[] = [];
+    const savedHistory = localStorage.getItem(stationCacheKey(CACHE_KEYS.HISTORY, station.id));
     if (savedHistory) {
       try {
-        setHistory(JSON.parse(savedHistory));
+        restoredHistory = JSON.parse(savedHistory);
       } catch (e) {
         console.error("Failed to parse history", e);
       }
     }
+    setHistory(restoredHistory);
 
-    const savedMetadata = localStorage.getItem(CACHE_KEYS.METADATA);
+    let restoredMetadata: RadioMetadata = { songtitle: '', status: 'offline' };
+    const savedMetadata = localStorage.getItem(stationCacheKey(CACHE_KEYS.METADATA, station.id));
     if (savedMetadata) {
       try {
-        setMetadata(JSON.parse(savedMetadata));
+        restoredMetadata = JSON.parse(savedMetadata);
       } catch (e) {
         console.error("Failed to parse metadata cache", e);
       }
     }
-  }, []);
+    setMetadata(restoredMetadata);
+  }, [station.id]);
 
   // Auto Theme Logic
   useEffect(() => {
@@ -530,123 +1160,340 @@ export default function RadioPlayer() {
     return () => clearInterval(interval);
   }, [isAutoTheme, currentTheme]);
 
+  // Cover Theme Logic: blends from the palette on screen to the new cover's over COVER_TRANSITION_MS
+  useEffect(() => {
+    if (!isCoverTheme || !metadata.cover) {
+      setCoverPalette(null);
+      return;
+    }
+
+    let cancelled = false;
+    let frame = 0;
+    extractCoverPalette(metadata.cover).then((target) => {
+      if (cancelled) return;
+      const from = coverPaletteRef.current;
+      // Cross-origin covers can't be sampled; the active theme stays until a readable cover comes along
+      if (!target || !from || window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+        setCoverPalette(target);
+        return;
+      }
+
+      const start = performance.now();
+      const step = (time: number) => {
+        const progress = Math.min(1, (time - start) / COVER_TRANSITION_MS);
+        const eased = 1 - (1 - progress) ** 3;
+        setCoverPalette(blendPalettes(from, target, eased));
+        if (progress < 1) frame = requestAnimationFrame(step);
+      };
+      frame = requestAnimationFrame(step);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [isCoverTheme, metadata.cover]);
+
+  // The heart follows the track on air; placeholders such as the loading message can't be liked
+  const currentTrack = metadata.artist ? { artist: metadata.artist, title: metadata.songtitle } : null;
+  // Tracks without cover art, and stations that are offline, show the station logo
+  const coverArt = metadata.cover || station.logo;
+  const isLiked = currentTrack !== null && likes.some(like => likeKey(like) === likeKey(currentTrack));
+
+  const saveLikes = (next: LikedTrack[]) => {
+    setLikes(next);
+    localStorage.setItem(CACHE_KEYS.LIKED, JSON.stringify(next));
+  };
+
+  // Votes feed the station charts; the library above stays on this device
+  const sendVote = async (vote: Vote) => {
+    if (!currentTrack) return;
+    setMyVote(vote);
+    try {
+      const response = await fetch('/api/votes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Device-Id': getDeviceId() },
+        body: JSON.stringify({ station: station.id, ...currentTrack, vote })
+      });
+      if (response.status === 429) showToast(t('toast.tooManyVotes'), <X size={14} />);
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+      const tally: VoteTally = await response.json();
+      setMyVote(tally.mine);
+    } catch (error) {
+      console.error('Vote error:', error);
+    }
+  };
+
   const toggleLike = () => {
-    const newState = !isLiked;
-    setIsLiked(newState);
-    localStorage.setItem(CACHE_KEYS.LIKED, String(newState));
+    if (!currentTrack) return;
+    if (isLiked) {
+      saveLikes(likes.filter(like => likeKey(like) !== likeKey(currentTrack)));
+      showToast(t('toast.unliked'), <Heart size={14} />);
+      sendVote(0);
+    } else {
+      saveLikes([{ ...currentTrack, cover: metadata.cover, likedAt: Date.now() }, ...likes]);
+      showToast(t('toast.liked'), <Heart size={14} fill="currentColor" />);
+      sendVote(1);
+    }
+  };
+
+  const toggleDislike = () => {
+    if (!currentTrack) return;
+    if (myVote === -1) {
+      sendVote(0);
+      return;
+    }
+    if (isLiked) saveLikes(likes.filter(like => likeKey(like) !== likeKey(currentTrack)));
+    sendVote(-1);
+    showToast(t('toast.voted'), <ThumbsDown size={14} />);
   };
 
-  const changeTheme = (newTheme: Theme) => {
+  const removeLike = (track: LikedTrack) => {
+    saveLikes(likes.filter(like => likeKey(like) !== likeKey(track)));
+  };
+
+  const exportLikes = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadFile('minhas-curtidas.json', JSON.stringify(likes, null, 2), 'application/json');
+    } else {
+      downloadFile('minhas-curtidas.csv', likesToCsv(likes), 'text/csv;charset=utf-8');
+    }
+  };
+
+  const likesSearch = likesQuery.trim().toLowerCase();
+  const filteredLikes = likesSearch
+    ? likes.filter(like => `${like.artist} ${like.title}`.toLowerCase().includes(likesSearch))
+    : likes;
+
+  const changeTheme = (newTheme: Theme | CustomThemeId) => {
     setCurrentTheme(newTheme);
     setIsAutoTheme(false); // Disable auto when manually selecting
     localStorage.setItem(CACHE_KEYS.THEME, newTheme);
     localStorage.setItem('radio_auto_theme', 'false');
-    setShowThemeSelector(false);
+    setIsCoverTheme(false);
+    localStorage.setItem(CACHE_KEYS.COVER_THEME, 'false');
+    closePopover();
+  };
+
+  const switchStation = (next: Station) => {
+    closePopover();
+    if (next.id === station.id) return;
+
+    setStationId(next.id);
+    localStorage.setItem(CACHE_KEYS.STATION, next.id);
+
+    // Each station brings its own look unless the theme follows the clock
+    if (!isAutoTheme && themes[next.theme]) {
+      setCurrentTheme(next.theme);
+      localStorage.setItem(CACHE_KEYS.THEME, next.theme);
+    }
+
+    setAiInsight(null);
+    setLyrics(null);
+    setLyricsError(null);
+    setSyncedLyrics(null);
+    setTranslatedLyrics(null);
+    closePanel('lyrics');
+    setShowTranslation(false);
+
+    if (isPlaying) {
+      startStream(next, isDataSaver);
+    }
+
+    showToast(next.name, <Radio size={14} />);
+  };
+
+  const installApp = async () => {
+    if (!installPrompt) {
+      showToast(t('toast.installHint'), <MonitorDown size={14} />);
+      return;
+    }
+    await installPrompt.prompt();
+    const { outcome } = await installPrompt.userChoice;
+    // The event can only be used once
+    setInstallPrompt(null);
+    if (outcome === 'dismissed') setCanInstallManually(false);
+  };
+
+  const toggleLyricsPanel = () => {
+    togglePanel('lyrics');
+    if (!showLyrics && !lyrics) fetchLyrics();
+  };
+
+  const toggleThemeSelector = () => {
+    togglePopover('themes');
+  };
+
+  const toggleHistoryPanel = () => {
+    togglePanel('history');
+  };
+
+  const toggleShortcutHelp = () => {
+    togglePopover('shortcuts');
+  };
+
+  const toggleLanguageSelector = () => {
+    togglePopover('language');
+  };
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    localStorage.setItem(CACHE_KEYS.LOCALE, next);
+    closePopover();
+    // Insights and translations were written in the previous language
+    setAiInsight(null);
+    setTranslatedLyrics(null);
+    setShowTranslation(false);
+  };
+
+  const toggleMute = () => {
+    const nextMuted = !isMuted;
+    setIsMuted(nextMuted);
+    showToast(t(nextMuted ? 'toast.muted' : 'toast.unmuted'), nextMuted ? <VolumeX size={14} /> : <Volume2 size={14} />);
+  };
+
+  const changeVolume = (value: number) => {
+    const val = Math.max(0, Math.min(100, value));
+    setVolume(val);
+    if (val > 0 && isMuted) setIsMuted(false);
+    showToast(t('toast.volume', { value: val }), val === 0 ? <VolumeX size={14} /> : <Volume2 size={14} />);
+  };
+
+  const toggleDataSaver = () => {
+    const newState = !isDataSaver;
+    setIsDataSaver(newState);
+    localStorage.setItem(CACHE_KEYS.DATA_SAVER, String(newState));
+    // Reconnect right away so the new bitrate takes effect
+    if (isPlaying) startStream(station, newState);
+    showToast(t(newState ? 'toast.dataSaverOn' : 'toast.dataSaverOff'), <Gauge size={14} />);
+  };
+
+  const saveCustomThemes = (next: CustomTheme[]) => {
+    setCustomThemes(next);
+    localStorage.setItem(CACHE_KEYS.CUSTOM_THEMES, JSON.stringify(next));
+  };
+
+  const openThemeEditor = (existing?: CustomTheme) => {
+    setThemeDraft(existing ?? { id: newCustomThemeId(), name: t('editor.defaultName'), colors: { ...DEFAULT_CUSTOM_COLORS } });
+    setOpenPopover('themeEditor');
+  };
+
+  const updateThemeColor = (key: keyof CustomThemeColors, value: string) => {
+    setThemeDraft(prev => prev && { ...prev, colors: { ...prev.colors, [key]: value } });
+  };
+
+  const saveThemeDraft = () => {
+    if (!themeDraft) return;
+    const draft = { ...themeDraft, name: themeDraft.name.trim() || t('editor.defaultName') };
+    const exists = customThemes.some(c => c.id === draft.id);
+    saveCustomThemes(exists ? customThemes.map(c => (c.id === draft.id ? draft : c)) : [...customThemes, draft]);
+    closePopover();
+    changeTheme(draft.id);
+    showToast(t('toast.themeSaved'), <Palette size={14} />);
+  };
+
+  const deleteCustomTheme = (id: CustomThemeId) => {
+    saveCustomThemes(customThemes.filter(c => c.id !== id));
+    closePopover();
+    if (currentTheme === id) changeTheme('neon');
+  };
+
+  const importThemes = async (file: File) => {
+    try {
+      const imported = parseThemes(await file.text());
+      saveCustomThemes([...customThemes, ...imported]);
+      showToast(t('toast.themesImported', { count: imported.length }), <Palette size={14} />);
+    } catch (error) {
+      console.error('Theme import error:', error);
+      showToast(t('toast.themeImportFailed'), <X size={14} />);
+    }
+  };
+
+  const exportThemes = () => {
+    downloadFile('temas-radio.json', themesToJson(customThemes), 'application/json');
   };
 
   const toggleAutoTheme = () => {
     const newState = !isAutoTheme;
     setIsAutoTheme(newState);
     localStorage.setItem('radio_auto_theme', String(newState));
-    showToast(newState ? 'Modo Automático Ativado' : 'Modo Automático Desativado', <Sparkles size={14} />);
+    if (newState) {
+      setIsCoverTheme(false);
+      localStorage.setItem(CACHE_KEYS.COVER_THEME, 'false');
+    }
+    showToast(t(newState ? 'toast.autoThemeOn' : 'toast.autoThemeOff'), <Sparkles size={14} />);
+  };
+
+  // The time-based and cover-based modes both pick the theme on their own, so only one can be on
+  const toggleCoverTheme = () => {
+    const newState = !isCoverTheme;
+    setIsCoverTheme(newState);
+    localStorage.setItem(CACHE_KEYS.COVER_THEME, String(newState));
+    if (newState) {
+      setIsAutoTheme(false);
+      localStorage.setItem('radio_auto_theme', 'false');
+    }
+    showToast(t(newState ? 'toast.coverThemeOn' : 'toast.coverThemeOff'), <ImageIcon size={14} />);
   };
 
   const getAiInsight = async () => {
-    if (!metadata.songtitle || metadata.songtitle === 'Carregando...') return;
+    if (!currentTrack) return;
     
     setIsAiLoading(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Me conte uma curiosidade rápida, inédita e interessante (máximo 2 frases) sobre a música ou artista: "${metadata.artist} - ${metadata.songtitle}". Tente não repetir fatos óbvios. Seja descontraído e use emojis.`,
-      });
-      setAiInsight(response.text || "Não consegui encontrar curiosidades agora. 🎵");
+      // Asking again while one is shown means the listener wants a different curiosity
+      const data = await postAi('insight', { artist: metadata.artist, title: metadata.songtitle, fresh: Boolean(aiInsight), locale });
+      setAiInsight(data.insight || t('insight.empty'));
     } catch (error) {
       console.error("Gemini error:", error);
-      setAiInsight("Ops! Ocorreu um erro ao buscar curiosidades. 🎸");
+      if (error instanceof ApiError && error.status === 429) {
+        showToast(t('toast.tooManyInsights'), <Sparkles size={14} />);
+      } else if (error instanceof ApiError && error.status === 404) {
+        setAiInsight(t('insight.empty'));
+      } else {
+        setAiInsight(t('insight.error'));
+      }
     } finally {
       setIsAiLoading(false);
     }
   };
 
   const fetchLyrics = async () => {
-    if (!metadata.songtitle || !metadata.artist || metadata.songtitle === 'Carregando...') return;
+    if (!metadata.songtitle || !metadata.artist) return;
     
     setIsLyricsLoading(true);
+    setLyricsError(null);
+    setSyncedLyrics(null);
     setTranslatedLyrics(null);
     setShowTranslation(false);
-    const cacheKey = `${metadata.artist}-${metadata.songtitle}`.toLowerCase();
-    
-    const saveToCache = (key: string, lyricsData: string) => {
-      try {
-        const cachedLyrics = localStorage.getItem(CACHE_KEYS.LYRICS);
-        const lyricsMap = cachedLyrics ? JSON.parse(cachedLyrics) : {};
-        lyricsMap[key] = lyricsData;
-        const keys = Object.keys(lyricsMap);
-        if (keys.length > 20) delete lyricsMap[keys[0]];
-        localStorage.setItem(CACHE_KEYS.LYRICS, JSON.stringify(lyricsMap));
-      } catch (e) {
-        console.error("Cache write error", e);
-      }
-    };
-
-    const fetchWithGemini = async () => {
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-        const response = await ai.models.generateContent({
-          model: "gemini-3-flash-preview",
-          contents: `Encontre a letra completa da música "${metadata.songtitle}" do artista "${metadata.artist}". Retorne APENAS a letra, sem introduções ou conclusões. Se não encontrar, retorne exatamente "NOT_FOUND".`,
-        });
-        const text = response.text?.trim();
-        if (text && text !== "NOT_FOUND" && text.length > 20) {
-          setLyrics(text);
-          saveToCache(cacheKey, text);
-          return true;
-        }
-      } catch (e) {
-        console.error("Gemini lyrics fallback error:", e);
-      }
-      return false;
-    };
-
-    // Check cache first
-    try {
-      const cachedLyrics = localStorage.getItem(CACHE_KEYS.LYRICS);
-      if (cachedLyrics) {
-        const lyricsMap = JSON.parse(cachedLyrics);
-        if (lyricsMap[cacheKey]) {
-          setLyrics(lyricsMap[cacheKey]);
-          setIsLyricsLoading(false);
-          return;
-        }
-      }
-    } catch (e) {
-      console.error("Cache read error", e);
-    }
 
+    // The server caches lyrics and falls back through its providers (AI included) on its own
     try {
-      const url = `https://api.lyrics.ovh/v1/${encodeURIComponent(metadata.artist)}/${encodeURIComponent(metadata.songtitle)}`;
-      const data = await fetchWithFallback(url);
+      const params = new URLSearchParams({ artist: metadata.artist, title: metadata.songtitle });
+      const response = await fetch(`/api/lyrics?${params}`);
+      if (!response.ok && response.status !== 404) throw new Error(`Status ${response.status}`);
+      const serverDate = Date.parse(response.headers.get('Date') || '');
+      if (Number.isFinite(serverDate)) clockOffsetRef.current = serverDate - Date.now();
+      const data: Partial<LyricsResult> = await response.json();
       
       if (data.lyrics) {
         setLyrics(data.lyrics);
-        saveToCache(cacheKey, data.lyrics);
+        setSyncedLyrics(data.synced?.length ? data.synced : null);
       } else {
-        const success = await fetchWithGemini();
-        if (!success) setLyrics("Letra não encontrada para esta música. 😕");
+        setLyrics(null);
+        setLyricsError('not-found');
       }
     } catch (error) {
       console.error("Lyrics fetch error:", error);
-      const success = await fetchWithGemini();
-      if (!success) setLyrics("Erro ao carregar a letra. Tente novamente mais tarde. 🛠️");
+      setLyrics(null);
+      setLyricsError('failed');
     } finally {
       setIsLyricsLoading(false);
     }
   };
 
   const translateLyrics = async () => {
-    if (!lyrics || lyrics.startsWith('Letra não encontrada') || lyrics.startsWith('Erro ao carregar')) return;
+    if (!lyrics) return;
     if (translatedLyrics) {
       setShowTranslation(!showTranslation);
       return;
@@ -654,68 +1501,490 @@ export default function RadioPlayer() {
     
     setIsTranslating(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Traduza a seguinte letra de música para o português brasileiro. Mantenha a formatação original (quebras de linha). Se a letra já estiver em português, apenas retorne a letra original. Letra:\n\n${lyrics}`,
-      });
-      setTranslatedLyrics(response.text || "Não consegui traduzir agora. 🎵");
+      const data = await postAi('translate', { lyrics, locale });
+      setTranslatedLyrics(data.translation || t('lyrics.translationEmpty'));
       setShowTranslation(true);
     } catch (error) {
       console.error("Translation error:", error);
-      showToast("Erro ao traduzir letra", <X size={14} />);
+      const rateLimited = error instanceof ApiError && error.status === 429;
+      showToast(t(rateLimited ? 'toast.tooManyTranslations' : 'toast.translationFailed'), <X size={14} />);
     } finally {
       setIsTranslating(false);
     }
   };
 
-  return (
-    <div className={`min-h-screen flex items-center justify-center p-6 ${theme.bg} transition-colors duration-700 overflow-hidden relative`}>
-      {/* Atmospheric Background Removed */}
+  return (
+    <div
+      className={`min-h-screen flex items-center justify-center p-6 ${theme.bg} transition-colors duration-700 overflow-hidden relative`}
+      style={customColors ? (customThemeVariables(customColors) as React.CSSProperties) : undefined}
+    >
+      {/* Atmospheric Background Removed */}
+
+      <motion.div 
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative z-10 w-full max-w-md"
+      >
+        {/* Keyboard Shortcuts Popover */}
+        <AnimatePresence>
+          {showShortcuts && (
+            <motion.div
+              ref={shortcutsRef}
+              role="dialog"
+              aria-label={t('shortcuts.title')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('shortcuts.title')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              <dl className="space-y-2">
+                {SHORTCUTS.map(({ keys, label }) => (
+                  <div key={label} className="flex items-center justify-between">
+                    <dt className={`text-xs ${theme.subtext}`}>{t(label)}</dt>
+                    <dd className="flex gap-1">
+                      {keys.map((key) => (
+                        <kbd key={key} className={`px-2 py-0.5 rounded-md bg-white/5 border ${theme.border} text-[10px] font-mono ${theme.text}`}>
+                          {isMessageKey(key) ? t(key) : key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Theme Selector Popover */}
+        <AnimatePresence>
+          {showThemeSelector && (
+            <motion.div
+              ref={themeSelectorRef}
+              role="dialog"
+              aria-label={t('header.themes')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('themes.title')}</h3>
+                <div className="flex items-center gap-3">
+                  <button 
+                    onClick={toggleAutoTheme}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-[9px] font-bold transition-all ${isAutoTheme ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext}`}`}
+                    title={t('themes.autoHint')}
+                    aria-pressed={isAutoTheme}
+                  >
+                    <Sparkles size={10} />
+                    {t('themes.auto')}
+                  </button>
+                  <button
+                    onClick={toggleCoverTheme}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-[9px] font-bold transition-all ${isCoverTheme ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext}`}`}
+                    title={t('themes.coverHint')}
+                    aria-pressed={isCoverTheme}
+                  >
+                    <ImageIcon size={10} />
+                    {t('themes.cover')}
+                  </button>
+                  <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                    <X size={16} />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(themes) as Theme[]).map((tKey) => (
+                  <button
+                    key={tKey}
+                    onClick={() => changeTheme(tKey)}
+                    className={`flex items-center gap-3 p-3 rounded-2xl border transition-all ${
+                      currentTheme === tKey 
+                        ? `bg-white/10 ${theme.border} ${currentTheme.startsWith('neon') ? 'shadow-[0_0_15px_rgba(249,115,22,0.3)]' : ''}` 
+                        : `bg-transparent border-transparent hover:bg-white/5`
+                    }`}
+                  >
+                    <div className={`w-4 h-4 rounded-full bg-gradient-to-br ${themes[tKey].accent}`} />
+                    <span className={`text-xs font-medium ${theme.text}`}>{t(`theme.${tKey}`)}</span>
+                  </button>
+                ))}
+                {customThemes.map((custom) => (
+                  <div key={custom.id} className="relative group/custom">
+                    <button
+                      onClick={() => changeTheme(custom.id)}
+                      className={`w-full flex items-center gap-3 p-3 pr-8 rounded-2xl border transition-all ${
+                        currentTheme === custom.id
+                          ? `bg-white/10 ${theme.border}`
+                          : `bg-transparent border-transparent hover:bg-white/5`
+                      }`}
+                    >
+                      <div
+                        className="w-4 h-4 rounded-full flex-shrink-0"
+                        style={{ background: `linear-gradient(to bottom right, ${custom.colors.accentFrom}, ${custom.colors.accentTo})` }}
+                      />
+                      <span className={`text-xs font-medium ${theme.text} truncate`}>{custom.name}</span>
+                    </button>
+                    <button
+                      onClick={() => openThemeEditor(custom)}
+                      className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full ${theme.subtext} hover:bg-white/10 transition-colors`}
+                      title={t('themes.edit')}
+                      aria-label={`${t('themes.edit')}: ${custom.name}`}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <button
+                  onClick={() => openThemeEditor()}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-[10px] font-bold bg-white/5 ${theme.text} hover:bg-white/10 transition-all`}
+                >
+                  <Plus size={12} />
+                  {t('themes.new')}
+                </button>
+                <button
+                  onClick={() => themeImportRef.current?.click()}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-[10px] font-bold bg-white/5 ${theme.text} hover:bg-white/10 transition-all`}
+                >
+                  <Upload size={12} />
+                  {t('themes.import')}
+                </button>
+                {customThemes.length > 0 && (
+                  <button
+                    onClick={exportThemes}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-[10px] font-bold bg-white/5 ${theme.text} hover:bg-white/10 transition-all`}
+                  >
+                    <Download size={12} />
+                    {t('themes.export')}
+                  </button>
+                )}
+                <input
+                  ref={themeImportRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importThemes(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text} mt-6 mb-4`}>{t('themes.visualizer')}</h3>
+              <div className="flex flex-wrap gap-2">
+                {VISUALIZER_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      setVisualizerMode(mode);
+                      localStorage.setItem(CACHE_KEYS.VISUALIZER, mode);
+                    }}
+                    className={`px-3 py-1.5 rounded-xl text-[10px] font-bold transition-all ${visualizerMode === mode ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.text} hover:bg-white/10`}`}
+                  >
+                    {t(`visualizer.${mode}`)}
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Theme Editor Popover: every change previews on the whole player until saved or discarded */}
+        <AnimatePresence>
+          {activeDraft && (
+            <motion.div
+              ref={themeEditorRef}
+              role="dialog"
+              aria-label={t('editor.title')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('editor.title')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              <label className={`block text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext} mb-1`} htmlFor="theme-name">
+                {t('editor.name')}
+              </label>
+              <input
+                id="theme-name"
+                type="text"
+                value={activeDraft.name}
+                maxLength={MAX_THEME_NAME_LENGTH}
+                onChange={(e) => setThemeDraft({ ...activeDraft, name: e.target.value })}
+                className={`w-full mb-4 px-3 py-2 rounded-xl bg-white/5 border ${theme.border} text-xs ${theme.text} outline-none`}
+              />
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {CUSTOM_COLOR_FIELDS.map(({ key, label }) => (
+                  <label key={key} className={`flex items-center justify-between gap-2 p-2 rounded-xl bg-white/5 border ${theme.border} cursor-pointer`}>
+                    <span className={`text-[10px] font-medium ${theme.text}`}>{t(label)}</span>
+                    <input
+                      type="color"
+                      value={activeDraft.colors[key]}
+                      onChange={(e) => updateThemeColor(key, e.target.value)}
+                      className="w-6 h-6 rounded-md bg-transparent border-0 cursor-pointer"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                {customThemes.some(c => c.id === activeDraft.id) && (
+                  <button
+                    onClick={() => deleteCustomTheme(activeDraft.id)}
+                    className={`p-2 rounded-xl bg-white/5 ${theme.subtext} hover:bg-white/10 transition-all`}
+                    title={t('themes.delete')}
+                    aria-label={t('themes.delete')}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={closePopover}
+                  className={`flex-1 py-2 rounded-xl text-[10px] font-bold uppercase bg-white/5 ${theme.subtext} hover:bg-white/10 transition-all`}
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  onClick={saveThemeDraft}
+                  className={`flex-1 py-2 rounded-xl text-[10px] font-bold uppercase bg-gradient-to-r ${theme.accent} text-white`}
+                >
+                  {t('editor.save')}
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
 
-      <motion.div 
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        className="relative z-10 w-full max-w-md"
-      >
-        {/* Theme Selector Popover */}
+        {/* Audio Settings Popover */}
         <AnimatePresence>
-          {showThemeSelector && (
+          {showAudioPanel && (
             <motion.div
+              ref={audioPanelRef}
+              role="dialog"
+              aria-label={t('header.equalizer')}
+              tabIndex={-1}
               initial={{ opacity: 0, scale: 0.9, y: 10 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.9, y: 10 }}
               className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
             >
               <div className="flex justify-between items-center mb-4">
-                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>Escolha o Tema</h3>
-                <div className="flex items-center gap-3">
-                  <button 
-                    onClick={toggleAutoTheme}
-                    className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-[9px] font-bold transition-all ${isAutoTheme ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext}`}`}
-                    title="Troca automática baseada no horário"
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('header.equalizer')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 mb-4">
+                {(Object.keys(EQ_PRESETS) as EqPreset[]).map((preset) => (
+                  <button
+                    key={preset}
+                    onClick={() => updateAudioSettings({ preset })}
+                    className={`py-2 rounded-xl text-[10px] font-bold transition-all ${audioSettings.preset === preset ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.text} hover:bg-white/10`}`}
                   >
-                    <Sparkles size={10} />
-                    AUTO
+                    {t(`eq.${preset}`)}
                   </button>
-                  <button onClick={() => setShowThemeSelector(false)} className={`${theme.subtext} hover:${theme.text}`}>
-                    <X size={16} />
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['compressor', 'audio.compressor'],
+                  ['mono', 'audio.mono']
+                ] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => updateAudioSettings({ [key]: !audioSettings[key] })}
+                    className={`flex items-center justify-between px-3 py-2 rounded-xl border transition-all ${audioSettings[key] ? `bg-white/10 ${theme.border}` : 'bg-transparent border-transparent hover:bg-white/5'}`}
+                  >
+                    <span className={`text-[10px] font-medium ${theme.text}`}>{t(label)}</span>
+                    <span className={`w-6 h-3 rounded-full transition-colors ${audioSettings[key] ? `bg-gradient-to-r ${theme.accent}` : 'bg-white/10'}`} />
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Sleep Timer & Alarm Popover */}
+        <AnimatePresence>
+          {showTimerPanel && (
+            <motion.div
+              ref={timerPanelRef}
+              role="dialog"
+              aria-label={t('header.timer')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('timer.title')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              {sleepEndsAt ? (
+                <div className="flex items-center justify-between mb-6 p-3 rounded-2xl bg-white/5">
+                  <span className={`text-xs font-mono ${theme.text}`}>
+                    {t('timer.endsIn', { time: formatCountdown(sleepEndsAt - clock) })}
+                  </span>
+                  <button
+                    onClick={cancelSleepTimer}
+                    className={`px-2 py-1 rounded-lg text-[9px] font-bold uppercase bg-white/5 ${theme.subtext} hover:bg-white/10 transition-all`}
+                  >
+                    {t('common.cancel')}
                   </button>
                 </div>
+              ) : (
+                <div className="flex items-center gap-2 mb-6">
+                  {SLEEP_PRESETS.map((minutes) => (
+                    <button
+                      key={minutes}
+                      onClick={() => startSleepTimer(minutes)}
+                      className={`flex-1 py-2 rounded-xl text-[10px] font-bold bg-white/5 ${theme.text} hover:bg-white/10 transition-all`}
+                    >
+                      {t('timer.minutes', { count: minutes })}
+                    </button>
+                  ))}
+                  <form
+                    className={`flex items-center flex-1 rounded-xl bg-white/5 border ${theme.border}`}
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      startSleepTimer(Number(customSleepMinutes));
+                    }}
+                  >
+                    <input
+                      type="number"
+                      min="1"
+                      max="720"
+                      value={customSleepMinutes}
+                      onChange={(e) => setCustomSleepMinutes(e.target.value)}
+                      placeholder={t('timer.placeholder')}
+                      className={`w-full min-w-0 bg-transparent px-2 py-2 text-[10px] ${theme.text} outline-none placeholder:opacity-50`}
+                    />
+                    <button type="submit" className={`px-2 text-[9px] font-bold ${theme.iconColor}`}>{t('timer.ok')}</button>
+                  </form>
+                </div>
+              )}
+
+              <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text} mb-4`}>{t('alarm.title')}</h3>
+              <div className="flex items-center gap-3">
+                <input
+                  type="time"
+                  value={alarm.time}
+                  onChange={(e) => e.target.value && saveAlarm({ ...alarm, time: e.target.value })}
+                  className={`flex-1 px-3 py-2 rounded-xl bg-white/5 border ${theme.border} text-xs ${theme.text} outline-none`}
+                />
+                <button
+                  onClick={() => {
+                    saveAlarm({ ...alarm, enabled: !alarm.enabled });
+                    if (!alarm.enabled) showToast(t('toast.alarmSet', { time: alarm.time }), <AlarmClock size={14} />);
+                  }}
+                  className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-[9px] font-bold uppercase transition-all ${alarm.enabled ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext}`}`}
+                >
+                  <AlarmClock size={12} />
+                  {t(alarm.enabled ? 'common.on' : 'common.off')}
+                </button>
               </div>
-              <div className="grid grid-cols-2 gap-3">
-                {(Object.keys(themes) as Theme[]).map((tKey) => (
+              <p className={`mt-3 text-[9px] ${theme.subtext}`}>{t('alarm.keepOpen')}</p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Station Selector Popover */}
+        <AnimatePresence>
+          {showStationSelector && (
+            <motion.div
+              ref={stationSelectorRef}
+              role="dialog"
+              aria-label={t('stations.title')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('stations.title')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="space-y-2">
+                {stations.map((s) => (
                   <button
-                    key={tKey}
-                    onClick={() => changeTheme(tKey)}
-                    className={`flex items-center gap-3 p-3 rounded-2xl border transition-all ${
-                      currentTheme === tKey 
-                        ? `bg-white/10 ${theme.border} ${currentTheme.startsWith('neon') ? 'shadow-[0_0_15px_rgba(249,115,22,0.3)]' : ''}` 
+                    key={s.id}
+                    onClick={() => switchStation(s)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-2xl border transition-all ${
+                      station.id === s.id
+                        ? `bg-white/10 ${theme.border}`
                         : `bg-transparent border-transparent hover:bg-white/5`
                     }`}
                   >
-                    <div className={`w-4 h-4 rounded-full bg-gradient-to-br ${themes[tKey].accent}`} />
-                    <span className={`text-xs font-medium ${theme.text}`}>{themes[tKey].name}</span>
+                    <div className={`w-8 h-8 rounded-lg bg-white/5 overflow-hidden flex-shrink-0 flex items-center justify-center border ${theme.border}`}>
+                      {s.logo ? (
+                        <img src={s.logo} alt="" className="w-full h-full object-contain p-1" />
+                      ) : (
+                        <Radio size={14} className={themes[s.theme]?.iconColor || theme.iconColor} />
+                      )}
+                    </div>
+                    <span className={`text-xs font-medium ${theme.text} truncate`}>{s.name}</span>
+                    <div className={`ml-auto w-3 h-3 rounded-full bg-gradient-to-br ${(themes[s.theme] || theme).accent}`} />
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Language Selector Popover */}
+        <AnimatePresence>
+          {showLanguageSelector && (
+            <motion.div
+              ref={languageSelectorRef}
+              role="dialog"
+              aria-label={t('language.title')}
+              tabIndex={-1}
+              initial={{ opacity: 0, scale: 0.9, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 10 }}
+              className={`absolute top-0 left-0 right-0 z-50 p-4 rounded-3xl ${theme.card} border ${theme.border} shadow-2xl mb-4`}
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${theme.text}`}>{t('language.title')}</h3>
+                <button onClick={closePopover} className={`${theme.subtext} hover:${theme.text}`} aria-label={t('common.close')}>
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="space-y-2">
+                {(Object.keys(LOCALES) as Locale[]).map((code) => (
+                  <button
+                    key={code}
+                    onClick={() => changeLocale(code)}
+                    lang={code}
+                    aria-pressed={locale === code}
+                    className={`w-full flex items-center justify-between p-3 rounded-2xl border transition-all ${
+                      locale === code
+                        ? `bg-white/10 ${theme.border}`
+                        : `bg-transparent border-transparent hover:bg-white/5`
+                    }`}
+                  >
+                    <span className={`text-xs font-medium ${theme.text}`}>{LOCALES[code]}</span>
+                    <span className={`text-[9px] font-mono uppercase ${theme.subtext}`}>{code}</span>
                   </button>
                 ))}
               </div>
@@ -732,41 +2001,87 @@ export default function RadioPlayer() {
           <div className="flex justify-between items-center mb-8">
             <div className="flex items-center gap-2">
               <button 
-                onClick={() => {
-                  const nextShowLyrics = !showLyrics;
-                  setShowLyrics(nextShowLyrics);
-                  if (showHistory) setShowHistory(false);
-                  if (showThemeSelector) setShowThemeSelector(false);
-                  if (nextShowLyrics && !lyrics) fetchLyrics();
-                }}
+                onClick={toggleLyricsPanel}
                 className={`p-2 rounded-full transition-colors ${showLyrics ? 'bg-white/10 ' + theme.text : theme.subtext + ' hover:' + theme.text}`}
-                title="Letras"
+                title={t('header.lyrics')}
+                aria-label={t('header.lyrics')}
+                aria-pressed={showLyrics}
               >
                 <FileText size={18} />
               </button>
               <button 
-                onClick={() => {
-                  setShowThemeSelector(!showThemeSelector);
-                  if (showHistory) setShowHistory(false);
-                  if (showLyrics) setShowLyrics(false);
-                }}
+                onClick={toggleThemeSelector}
                 className={`p-2 rounded-full transition-colors ${showThemeSelector ? 'bg-white/10 ' + theme.text : theme.subtext + ' hover:' + theme.text}`}
-                title="Temas"
+                title={t('header.themes')}
+                aria-label={t('header.themes')}
+                aria-expanded={showThemeSelector}
               >
                 <Palette size={18} />
               </button>
+              <button 
+                onClick={() => togglePopover('audio')}
+                className={`p-2 rounded-full transition-colors ${showAudioPanel ? 'bg-white/10 ' + theme.text : theme.subtext + ' hover:' + theme.text}`}
+                title={t('header.equalizer')}
+                aria-label={t('header.equalizer')}
+                aria-expanded={showAudioPanel}
+              >
+                <SlidersHorizontal size={18} />
+              </button>
+              <button 
+                onClick={() => togglePopover('timer')}
+                className={`p-2 rounded-full transition-colors ${showTimerPanel ? 'bg-white/10 ' + theme.text : (sleepEndsAt || alarm.enabled) ? theme.iconColor : theme.subtext + ' hover:' + theme.text}`}
+                title={t('header.timer')}
+                aria-label={t('header.timer')}
+                aria-expanded={showTimerPanel}
+              >
+                <Moon size={18} />
+              </button>
             </div>
             <h1 className={`text-[12px] uppercase tracking-[0.4em] font-black ${theme.subtext}`}>
-              RADIO ONLINE
+              {t('player.heading')}
             </h1>
-            <div className="w-10" /> {/* Spacer for balance */}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={toggleLanguageSelector}
+                className={`p-2 rounded-full transition-colors ${showLanguageSelector ? 'bg-white/10 ' + theme.text : theme.subtext + ' hover:' + theme.text}`}
+                title={t('header.language')}
+                aria-label={t('header.language')}
+                aria-expanded={showLanguageSelector}
+              >
+                <Languages size={18} />
+              </button>
+              {(installPrompt || canInstallManually) && !isStandalone() && (
+                <button
+                  onClick={installApp}
+                  className={`p-2 rounded-full transition-colors ${theme.subtext} hover:${theme.text}`}
+                  title={t('header.install')}
+                  aria-label={t('header.install')}
+                >
+                  <MonitorDown size={18} />
+                </button>
+              )}
+              {/* Station switcher, or a spacer for balance */}
+              {stations.length > 1 ? (
+                <button 
+                  onClick={() => togglePopover('stations')}
+                  className={`p-2 rounded-full transition-colors ${showStationSelector ? 'bg-white/10 ' + theme.text : theme.subtext + ' hover:' + theme.text}`}
+                  title={t('header.station', { name: station.name })}
+                  aria-label={t('header.station', { name: station.name })}
+                  aria-expanded={showStationSelector}
+                >
+                  <Radio size={18} />
+                </button>
+              ) : (
+                <div className="w-10" />
+              )}
+            </div>
           </div>
 
           {/* Album Art / Visualizer */}
           <div className="relative aspect-square mb-8 group">
             {/* Background Glow based on Cover */}
             <AnimatePresence>
-              {metadata.cover && (
+              {coverArt && (
                 <motion.div
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 0.4 }}
@@ -774,7 +2089,7 @@ export default function RadioPlayer() {
                   className="absolute -inset-4 blur-3xl rounded-full z-0 overflow-hidden"
                 >
                   <img 
-                    src={metadata.cover} 
+                    src={coverArt} 
                     alt="" 
                     className="w-full h-full object-cover scale-150"
                     referrerPolicy="no-referrer"
@@ -787,9 +2102,9 @@ export default function RadioPlayer() {
               {/* Visualizer Canvas */}
               <canvas 
                 ref={canvasRef}
-                className="absolute inset-x-0 bottom-0 w-full h-1/2 z-10 pointer-events-none opacity-40"
+                className="absolute inset-0 w-full h-full z-10 pointer-events-none opacity-40"
                 width={400}
-                height={200}
+                height={400}
               />
               <AnimatePresence mode="wait">
                 <motion.div 
@@ -799,9 +2114,9 @@ export default function RadioPlayer() {
                   exit={{ scale: 0.9, opacity: 0 }}
                   className="w-full h-full flex items-center justify-center bg-black/20"
                 >
-                  {metadata.cover ? (
+                  {coverArt ? (
                     <motion.img 
-                      src={metadata.cover} 
+                      src={coverArt} 
                       alt={metadata.songtitle}
                       className="w-full h-full object-cover"
                       animate={isPlaying ? {
@@ -839,9 +2154,10 @@ export default function RadioPlayer() {
             </div>
             
             {/* Play Overlay */}
-            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-black/20 rounded-3xl">
+            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-300 bg-black/20 rounded-3xl">
               <button 
                 onClick={togglePlay}
+                aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
                 className={`w-20 h-20 rounded-full bg-white/10 backdrop-blur-md border ${theme.border} flex items-center justify-center ${theme.text} hover:scale-110 transition-transform`}
               >
                 <AnimatePresence mode="wait">
@@ -880,13 +2196,16 @@ export default function RadioPlayer() {
 
           {/* Info */}
           <div className="text-center mb-8 relative group/info">
+            <p className="sr-only" aria-live="polite">
+              {metadata.artist ? t('player.announce', { title: metadata.title || metadata.songtitle, artist: metadata.artist }) : ''}
+            </p>
             <motion.h2 
               key={metadata.songtitle}
               initial={{ y: 10, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
               className={`text-2xl font-black tracking-tight ${theme.text} mb-2 truncate px-4`}
             >
-              {metadata.songtitle}
+              {metadata.songtitle || t('player.loading')}
             </motion.h2>
             <motion.p 
               key={metadata.artist}
@@ -894,15 +2213,38 @@ export default function RadioPlayer() {
               animate={{ y: 0, opacity: 0.5 }}
               className={`text-[11px] uppercase tracking-[0.3em] font-bold ${theme.subtext} flex items-center justify-center gap-2`}
             >
-              {metadata.artist || 'SoundPop'}
-              <button 
-                onClick={getAiInsight}
-                disabled={isAiLoading}
-                className={`p-1 rounded-full hover:bg-white/10 transition-colors ${theme.subtext} hover:${theme.text} disabled:opacity-50`}
-                title="Curiosidade AI"
+              {metadata.artist || station.name}
+              <button
+                onClick={toggleLike}
+                disabled={!currentTrack}
+                className={`p-1 rounded-full hover:bg-white/10 transition-colors ${isLiked ? theme.iconColor : `${theme.subtext} hover:${theme.text}`} disabled:opacity-50`}
+                title={t(isLiked ? 'player.unlike' : 'player.like')}
+                aria-label={t('player.like')}
+                aria-pressed={isLiked}
+              >
+                <Heart size={14} fill={isLiked ? 'currentColor' : 'none'} />
+              </button>
+              <button
+                onClick={toggleDislike}
+                disabled={!currentTrack}
+                className={`p-1 rounded-full hover:bg-white/10 transition-colors ${myVote === -1 ? theme.iconColor : `${theme.subtext} hover:${theme.text}`} disabled:opacity-50`}
+                title={t(myVote === -1 ? 'player.removeVote' : 'player.dislike')}
+                aria-label={t('player.dislike')}
+                aria-pressed={myVote === -1}
               >
-                {isAiLoading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                <ThumbsDown size={14} fill={myVote === -1 ? 'currentColor' : 'none'} />
               </button>
+              {isAiEnabled && (
+                <button 
+                  onClick={getAiInsight}
+                  disabled={isAiLoading}
+                  className={`p-1 rounded-full hover:bg-white/10 transition-colors ${theme.subtext} hover:${theme.text} disabled:opacity-50`}
+                  title={t('player.insight')}
+                  aria-label={t('player.insight')}
+                >
+                  {isAiLoading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                </button>
+              )}
             </motion.p>
 
             {/* AI Insight Tooltip/Overlay */}
@@ -916,6 +2258,7 @@ export default function RadioPlayer() {
                 >
                   <button 
                     onClick={() => setAiInsight(null)}
+                    aria-label={t('common.close')}
                     className={`absolute top-2 right-2 ${theme.subtext} hover:${theme.text} p-1`}
                   >
                     <X size={14} />
@@ -934,7 +2277,7 @@ export default function RadioPlayer() {
                       ) : (
                         <Sparkles size={10} />
                       )}
-                      OUTRA CURIOSIDADE
+                      {t('player.anotherInsight')}
                     </button>
                   </div>
                 </motion.div>
@@ -975,7 +2318,7 @@ export default function RadioPlayer() {
                   ))}
                 </div>
                 <span className={`text-[10px] font-bold uppercase tracking-[0.15em] transition-colors duration-500 ${isPlaying ? theme.iconColor : theme.subtext}`}>
-                  {isPlaying ? 'Tocando agora' : 'Pronto para tocar'}
+                  {t(isPlaying ? 'player.nowPlaying' : 'player.ready')}
                 </span>
               </div>
               <div className={`text-[10px] font-mono ${theme.subtext} tracking-wider`}>
@@ -987,12 +2330,10 @@ export default function RadioPlayer() {
           {/* Controls */}
           <div className="flex items-center gap-6 mb-8">
             <button 
-              onClick={() => {
-                const nextMuted = !isMuted;
-                setIsMuted(nextMuted);
-                showToast(nextMuted ? 'Mudo' : 'Som Ativado', nextMuted ? <VolumeX size={14} /> : <Volume2 size={14} />);
-              }}
+              onClick={toggleMute}
               className={`${theme.subtext} hover:${theme.text} transition-colors`}
+              aria-label={t('player.mute')}
+              aria-pressed={isMuted}
             >
               {isMuted || volume === 0 ? <VolumeX size={20} /> : <Volume2 size={20} />}
             </button>
@@ -1003,15 +2344,12 @@ export default function RadioPlayer() {
                 min="0"
                 max="100"
                 value={volume}
-                onChange={(e) => {
-                  const val = Number(e.target.value);
-                  setVolume(val);
-                  if (val > 0 && isMuted) setIsMuted(false);
-                  showToast(`Volume: ${val}%`, val === 0 ? <VolumeX size={14} /> : <Volume2 size={14} />);
-                }}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                onChange={(e) => changeVolume(Number(e.target.value))}
+                aria-label={t('player.volume')}
+                aria-valuetext={`${volume}%`}
+                className="peer absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
               />
-              <div className={`absolute inset-0 ${currentTheme.startsWith('neon') ? 'bg-white/10' : 'bg-white/5'} rounded-full`} />
+              <div className={`absolute inset-0 ${currentTheme.startsWith('neon') ? 'bg-white/10' : 'bg-white/5'} rounded-full peer-focus-visible:ring-2 peer-focus-visible:ring-white/40`} />
               <div 
                 className={`absolute inset-y-0 left-0 bg-gradient-to-r ${theme.accent} rounded-full transition-all`}
                 style={{ width: `${volume}%` }}
@@ -1024,6 +2362,7 @@ export default function RadioPlayer() {
 
             <button 
               onClick={togglePlay}
+              aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
               className={`w-12 h-12 rounded-full bg-gradient-to-br ${theme.accent} ${theme.text} flex items-center justify-center hover:scale-105 transition-transform active:scale-95 ${theme.glow}`}
             >
               <AnimatePresence mode="wait">
@@ -1059,41 +2398,103 @@ export default function RadioPlayer() {
             </button>
           </div>
 
-          {/* History Button (formerly Lyrics) */}
-          <div className="flex justify-center mb-8">
+          {/* History & Likes Buttons */}
+          <div className="flex flex-wrap justify-center gap-2 mb-8">
             <button 
-              onClick={() => {
-                setShowHistory(!showHistory);
-                if (showLyrics) setShowLyrics(false);
-              }}
+              onClick={toggleHistoryPanel}
+              aria-pressed={showHistory}
               className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all ${showHistory ? `bg-gradient-to-r ${theme.accent} text-white ${theme.glow}` : `bg-white/5 ${theme.subtext} hover:bg-white/10 hover:${theme.text}`}`}
             >
               <Music size={16} />
-              <span className="text-[10px] font-bold uppercase tracking-widest">Tocadas Recentemente</span>
+              <span className="text-[10px] font-bold uppercase tracking-widest">{t('history.title')}</span>
+            </button>
+            <button 
+              onClick={() => togglePanel('likes')}
+              aria-pressed={showLikes}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all ${showLikes ? `bg-gradient-to-r ${theme.accent} text-white ${theme.glow}` : `bg-white/5 ${theme.subtext} hover:bg-white/10 hover:${theme.text}`}`}
+            >
+              <Heart size={16} />
+              <span className="text-[10px] font-bold uppercase tracking-widest">{t('likes.title')}</span>
+            </button>
+            <button 
+              onClick={() => togglePanel('charts')}
+              aria-pressed={showCharts}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all ${showCharts ? `bg-gradient-to-r ${theme.accent} text-white ${theme.glow}` : `bg-white/5 ${theme.subtext} hover:bg-white/10 hover:${theme.text}`}`}
+            >
+              <Trophy size={16} />
+              <span className="text-[10px] font-bold uppercase tracking-widest">{t('charts.title')}</span>
             </button>
           </div>
 
           {/* Status Bar */}
           <div className="flex items-center justify-center gap-4">
             <div className="flex items-center gap-2">
-              <div className={`h-1.5 w-1.5 rounded-full ${metadata.status === 'online' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : 'bg-red-500'}`} />
-              <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext}`}>
-                {metadata.status === 'online' ? 'Transmissão Estável' : 'Servidor Offline'}
-              </span>
+              {playbackStatus.state === 'reconnecting' ? (
+                <>
+                  <div className="h-1.5 w-1.5 rounded-full bg-amber-400 animate-pulse shadow-[0_0_8px_rgba(251,191,36,0.5)]" />
+                  <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext}`}>
+                    {t('status.reconnecting', { attempt: playbackStatus.attempt, max: playbackStatus.maxAttempts })}
+                  </span>
+                </>
+              ) : playbackStatus.state === 'failed' ? (
+                <>
+                  <div className="h-1.5 w-1.5 rounded-full bg-red-500" />
+                  <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext}`}>
+                    {t('status.failed')}
+                  </span>
+                </>
+              ) : (
+                <>
+                  <div className={`h-1.5 w-1.5 rounded-full ${metadata.status === 'online' ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : 'bg-red-500'}`} />
+                  <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext}`}>
+                    {t(metadata.status === 'online' ? 'status.online' : 'status.offline')}
+                  </span>
+                </>
+              )}
             </div>
+            <button
+              onClick={toggleDataSaver}
+              title={t('status.dataSaver')}
+              aria-pressed={isDataSaver}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-full transition-colors ${isDataSaver ? `bg-white/10 ${theme.iconColor}` : `${theme.subtext} hover:${theme.text}`}`}
+            >
+              <Gauge size={12} />
+              <span className="text-[9px] font-bold uppercase tracking-[0.2em]">
+                {t(isDataSaver ? 'status.saving' : 'status.highQuality')}
+              </span>
+            </button>
+            <button
+              onClick={toggleShortcutHelp}
+              title={`${t('shortcuts.title')} (?)`}
+              aria-label={t('shortcuts.title')}
+              aria-expanded={showShortcuts}
+              className={`hidden sm:flex p-1 rounded-full transition-colors ${showShortcuts ? `bg-white/10 ${theme.iconColor}` : `${theme.subtext} hover:${theme.text}`}`}
+            >
+              <Keyboard size={12} />
+            </button>
           </div>
+          {metadata.status === 'online' && formatStreamStats(metadata, t) && (
+            <p
+              className={`mt-3 text-center text-[9px] font-bold uppercase tracking-[0.2em] ${theme.subtext} opacity-70`}
+              title={metadata.peakListeners !== undefined ? t('status.peak', { count: metadata.peakListeners }) : undefined}
+            >
+              {formatStreamStats(metadata, t)}
+            </p>
+          )}
 
           {/* Recently Played History */}
           <AnimatePresence>
             {showHistory && (
               <motion.div
+                role="region"
+                aria-label={t('history.title')}
                 initial={{ height: 0, opacity: 0 }}
                 animate={{ height: 'auto', opacity: 1 }}
                 exit={{ height: 0, opacity: 0 }}
                 className={`overflow-hidden mt-8 pt-8 border-t ${theme.border}`}
               >
                 <div className={`${theme.card} bg-opacity-20 rounded-2xl p-4 border ${theme.border} backdrop-blur-md`}>
-                  <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext} mb-4`}>Tocadas Recentemente</h3>
+                  <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext} mb-4`}>{t('history.title')}</h3>
                   <div className="space-y-3 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
                     {history.length > 0 ? (
                       history.map((item, index) => (
@@ -1111,13 +2512,161 @@ export default function RadioPlayer() {
                             <p className={`text-xs font-medium ${theme.text} truncate group-hover:${theme.iconColor} transition-colors`}>{item.songtitle}</p>
                             <p className={`text-[10px] ${theme.subtext} truncate uppercase tracking-wider`}>{item.artist}</p>
                           </div>
-                          <span className={`text-[9px] ${theme.subtext} font-mono opacity-50`}>
-                            {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          <span className={`text-[9px] ${theme.subtext} font-mono opacity-50 whitespace-nowrap`}>
+                            {formatPlayedAt(item.timestamp, locale)}
+                          </span>
+                        </div>
+                      ))
+                    ) : (
+                      <p className={`text-[10px] ${theme.subtext} italic`}>{t('history.empty')}</p>
+                    )}
+                    {historyCursor !== null && (
+                      <button
+                        onClick={() => loadHistory(historyCursor)}
+                        disabled={isHistoryLoading}
+                        className={`w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest bg-white/5 ${theme.subtext} hover:bg-white/10 transition-all disabled:opacity-50`}
+                      >
+                        {isHistoryLoading && <Loader2 size={10} className="animate-spin" />}
+                        {t('history.loadMore')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Liked Songs */}
+          <AnimatePresence>
+            {showLikes && (
+              <motion.div
+                role="region"
+                aria-label={t('likes.title')}
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className={`overflow-hidden mt-8 pt-8 border-t ${theme.border}`}
+              >
+                <div className={`${theme.card} bg-opacity-20 rounded-2xl p-4 border ${theme.border} backdrop-blur-md`}>
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext}`}>{t('likes.count', { count: likes.length })}</h3>
+                    {likes.length > 0 && (
+                      <div className="flex items-center gap-1.5">
+                        {(['json', 'csv'] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => exportLikes(format)}
+                            className={`flex items-center gap-1 px-2 py-0.5 rounded-md text-[9px] font-bold uppercase bg-white/5 ${theme.subtext} hover:bg-white/10 transition-all`}
+                            title={t('likes.export', { format: format.toUpperCase() })}
+                          >
+                            <Download size={10} />
+                            {format}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  {likes.length > 0 && (
+                    <div className={`flex items-center gap-2 mb-4 px-3 py-2 rounded-xl bg-white/5 border ${theme.border}`}>
+                      <Search size={12} className={theme.subtext} />
+                      <input
+                        type="search"
+                        value={likesQuery}
+                        onChange={(e) => setLikesQuery(e.target.value)}
+                        placeholder={t('likes.search')}
+                        className={`flex-1 bg-transparent text-xs ${theme.text} outline-none placeholder:opacity-50`}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-3 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
+                    {filteredLikes.length > 0 ? (
+                      filteredLikes.map((item) => (
+                        <div key={likeKey(item)} className="flex items-center gap-3 group">
+                          <div className={`w-10 h-10 rounded-lg bg-white/5 overflow-hidden flex-shrink-0 border ${theme.border}`}>
+                            {item.cover ? (
+                              <img src={item.cover} alt="" className="w-full h-full object-cover opacity-60 group-hover:opacity-100 transition-opacity" />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center">
+                                <Heart size={16} className={`${theme.text} opacity-10`} />
+                              </div>
+                            )}
+                          </div>
+                          <div className="min-w-0 flex-1">
+                            <p className={`text-xs font-medium ${theme.text} truncate group-hover:${theme.iconColor} transition-colors`}>{item.title}</p>
+                            <p className={`text-[10px] ${theme.subtext} truncate uppercase tracking-wider`}>{item.artist}</p>
+                          </div>
+                          <span className={`text-[9px] ${theme.subtext} font-mono opacity-50 whitespace-nowrap`}>
+                            {formatPlayedAt(item.likedAt, locale)}
+                          </span>
+                          <button
+                            onClick={() => removeLike(item)}
+                            className={`p-1 ${theme.subtext} hover:${theme.text} opacity-50 group-hover:opacity-100 transition-opacity`}
+                            title={t('common.remove')}
+                          >
+                            <X size={12} />
+                          </button>
+                        </div>
+                      ))
+                    ) : (
+                      <p className={`text-[10px] ${theme.subtext} italic`}>
+                        {t(likes.length > 0 ? 'likes.noMatches' : 'likes.empty')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Listener Charts */}
+          <AnimatePresence>
+            {showCharts && (
+              <motion.div
+                role="region"
+                aria-label={t('charts.title')}
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className={`overflow-hidden mt-8 pt-8 border-t ${theme.border}`}
+              >
+                <div className={`${theme.card} bg-opacity-20 rounded-2xl p-4 border ${theme.border} backdrop-blur-md`}>
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext}`}>{t('charts.title')}</h3>
+                    <div className="flex items-center gap-1">
+                      {CHART_PERIODS.map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => setChartPeriod(id)}
+                          className={`px-2 py-0.5 rounded-md text-[9px] font-bold uppercase transition-all ${chartPeriod === id ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext} hover:bg-white/10`}`}
+                        >
+                          {t(label)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-3 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
+                    {isChartsLoading && charts.length === 0 ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 size={14} className={`animate-spin ${theme.iconColor}`} />
+                      </div>
+                    ) : charts.length > 0 ? (
+                      charts.map((item, index) => (
+                        <div key={`${item.artist}|${item.title}`} className="flex items-center gap-3 group">
+                          <span className={`w-6 text-center text-sm font-black ${index < 3 ? theme.iconColor : theme.subtext}`}>
+                            {index + 1}
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <p className={`text-xs font-medium ${theme.text} truncate group-hover:${theme.iconColor} transition-colors`}>{item.title}</p>
+                            <p className={`text-[10px] ${theme.subtext} truncate uppercase tracking-wider`}>{item.artist}</p>
+                          </div>
+                          <span className={`flex items-center gap-1 text-[9px] ${theme.subtext} font-mono whitespace-nowrap`}>
+                            <Heart size={10} fill="currentColor" className={theme.iconColor} />
+                            {item.likes}
                           </span>
                         </div>
                       ))
                     ) : (
-                      <p className={`text-[10px] ${theme.subtext} italic`}>Nenhuma música no histórico ainda.</p>
+                      <p className={`text-[10px] ${theme.subtext} italic`}>{t('charts.empty')}</p>
                     )}
                   </div>
                 </div>
@@ -1129,6 +2678,8 @@ export default function RadioPlayer() {
           <AnimatePresence>
             {showLyrics && (
               <motion.div
+                role="region"
+                aria-label={t('header.lyrics')}
                 initial={{ height: 0, opacity: 0 }}
                 animate={{ height: 'auto', opacity: 1 }}
                 exit={{ height: 0, opacity: 0 }}
@@ -1136,28 +2687,29 @@ export default function RadioPlayer() {
               >
                 <div className={`${theme.card} bg-opacity-20 rounded-2xl p-5 border ${theme.border} backdrop-blur-md relative`}>
                   <button 
-                    onClick={() => setShowLyrics(false)}
+                    onClick={() => closePanel('lyrics')}
+                    aria-label={t('common.close')}
                     className={`absolute top-4 right-4 ${theme.subtext} hover:${theme.text} transition-colors`}
                   >
                     <X size={16} />
                   </button>
                   <div className="flex justify-between items-center mb-4">
                     <div className="flex items-center gap-3">
-                      <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext}`}>Letra da Música</h3>
-                      {lyrics && !lyrics.startsWith('Letra não encontrada') && !lyrics.startsWith('Erro ao carregar') && (
+                      <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext}`}>{t('lyrics.title')}</h3>
+                      {isAiEnabled && lyrics && (
                         <button 
                           onClick={translateLyrics}
                           disabled={isTranslating}
                           className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[9px] font-bold transition-all ${showTranslation ? `bg-gradient-to-r ${theme.accent} text-white` : `bg-white/5 ${theme.subtext} hover:bg-white/10`}`}
                         >
                           {isTranslating ? <Loader2 size={10} className="animate-spin" /> : <Sparkles size={10} />}
-                          TRADUÇÃO
+                          {t('lyrics.translate')}
                         </button>
                       )}
                     </div>
                     {isLyricsLoading && <Loader2 size={12} className={`animate-spin ${theme.iconColor}`} />}
                   </div>
-                  <div className="max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+                  <div ref={lyricsContainerRef} className="relative max-h-64 overflow-y-auto pr-2 custom-scrollbar">
                     {isLyricsLoading ? (
                       <div className="flex flex-col gap-2">
                         <div className="h-3 w-3/4 bg-white/5 rounded animate-pulse" />
@@ -1168,12 +2720,32 @@ export default function RadioPlayer() {
                       <pre className={`text-xs ${theme.text} opacity-70 whitespace-pre-wrap font-sans leading-relaxed animate-in fade-in duration-500`}>
                         {translatedLyrics}
                       </pre>
+                    ) : (syncedLyrics && metadata.startedAt) ? (
+                      <div className="space-y-1.5 py-24 animate-in fade-in duration-500">
+                        {syncedLyrics.map((line, index) => (
+                          <p
+                            key={`${line.time}-${index}`}
+                            ref={(el) => { lyricLineRefs.current[index] = el; }}
+                            className={`text-xs leading-relaxed transition-all duration-300 ${
+                              index === activeLyricIndex
+                                ? `${theme.iconColor} font-bold scale-[1.03] origin-left`
+                                : `${theme.text} ${index < activeLyricIndex ? 'opacity-30' : 'opacity-60'}`
+                            }`}
+                          >
+                            {line.text || '♪'}
+                          </p>
+                        ))}
+                      </div>
                     ) : lyrics ? (
                       <pre className={`text-xs ${theme.text} opacity-70 whitespace-pre-wrap font-sans leading-relaxed animate-in fade-in duration-500`}>
                         {lyrics}
                       </pre>
+                    ) : lyricsError ? (
+                      <p className={`text-xs ${theme.text} opacity-70`}>
+                        {t(lyricsError === 'not-found' ? 'lyrics.notFound' : 'lyrics.error')}
+                      </p>
                     ) : (
-                      <p className={`text-[10px] ${theme.subtext} italic`}>Clique no ícone de letra para carregar.</p>
+                      <p className={`text-[10px] ${theme.subtext} italic`}>{t('lyrics.hint')}</p>
                     )}
                   </div>
                 </div>
@@ -1186,7 +2758,7 @@ export default function RadioPlayer() {
         <div className="mt-8 space-y-6">
           <div className="space-y-4">
             <p className={`text-center text-[12px] uppercase tracking-[0.4em] font-black ${theme.text}`}>
-              PARCEIROS
+              {t('footer.partners')}
             </p>
             
             <div className="flex flex-wrap justify-center items-center gap-x-3 gap-y-2 px-4">
@@ -1218,24 +2790,77 @@ export default function RadioPlayer() {
         </div>
       </motion.div>
 
-      {/* Toast Notification */}
+      {/* Offline Screen: the last now-playing and history snapshots cached in localStorage */}
       <AnimatePresence>
-        {toast && (
+        {isOffline && (
           <motion.div
-            initial={{ opacity: 0, y: 20, scale: 0.9 }}
-            animate={{ opacity: 1, y: 0, scale: 1 }}
-            exit={{ opacity: 0, y: 10, scale: 0.9 }}
-            className={`fixed bottom-12 left-1/2 -translate-x-1/2 z-[100] px-6 py-3 rounded-full ${theme.card} border ${theme.border} ${theme.glow} flex items-center gap-3 backdrop-blur-2xl`}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className={`fixed inset-0 z-[90] flex items-center justify-center p-6 ${theme.bg}`}
           >
-            <div className={theme.iconColor}>
-              {toast.icon}
+            <div className={`w-full max-w-md ${theme.card} border ${theme.border} rounded-[2.5rem] p-8 shadow-2xl text-center`}>
+              <WifiOff size={32} className={`mx-auto mb-4 ${theme.iconColor}`} />
+              <h2 className={`text-lg font-bold ${theme.text}`}>{t('offline.title')}</h2>
+              <p className={`text-xs ${theme.subtext} mt-2`}>{t('offline.body')}</p>
+
+              {metadata.artist && (
+                <div className={`mt-8 p-4 rounded-2xl bg-white/5 border ${theme.border} text-left`}>
+                  <p className={`text-[9px] uppercase tracking-[0.2em] font-bold ${theme.subtext} mb-1`}>{t('offline.lastTrack')}</p>
+                  <p className={`text-sm font-medium ${theme.text} truncate`}>{metadata.title || metadata.songtitle}</p>
+                  <p className={`text-[10px] ${theme.subtext} truncate uppercase tracking-wider`}>{metadata.artist}</p>
+                </div>
+              )}
+
+              {history.length > 0 && (
+                <div className="mt-6 space-y-3 text-left max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+                  <h3 className={`text-[10px] uppercase tracking-[0.2em] font-bold ${theme.subtext}`}>{t('history.title')}</h3>
+                  {history.slice(0, 5).map((item, index) => (
+                    <div key={item.timestamp + index} className="flex items-center gap-3">
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-xs font-medium ${theme.text} truncate`}>{item.songtitle}</p>
+                        <p className={`text-[10px] ${theme.subtext} truncate uppercase tracking-wider`}>{item.artist}</p>
+                      </div>
+                      <span className={`text-[9px] ${theme.subtext} font-mono opacity-50 whitespace-nowrap`}>
+                        {formatPlayedAt(item.timestamp, locale)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <button
+                onClick={() => window.location.reload()}
+                className={`mt-8 inline-flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest bg-gradient-to-r ${theme.accent} text-white`}
+              >
+                <RefreshCw size={12} />
+                {t('common.retry')}
+              </button>
             </div>
-            <span className={`text-[10px] font-bold uppercase tracking-[0.2em] ${theme.text}`}>
-              {toast.message}
-            </span>
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Toast Notification */}
+      <div role="status" aria-live="polite">
+        <AnimatePresence>
+          {toast && (
+            <motion.div
+              initial={{ opacity: 0, y: 20, scale: 0.9 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 10, scale: 0.9 }}
+              className={`fixed bottom-12 left-1/2 -translate-x-1/2 z-[100] px-6 py-3 rounded-full ${theme.card} border ${theme.border} ${theme.glow} flex items-center gap-3 backdrop-blur-2xl`}
+            >
+              <div className={theme.iconColor}>
+                {toast.icon}
+              </div>
+              <span className={`text-[10px] font-bold uppercase tracking-[0.2em] ${theme.text}`}>
+                {toast.message}
+              </span>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,71 @@
+export type EqPreset = 'flat' | 'pop' | 'bass' | 'voice' | 'night';
+
+export interface AudioSettings {
+  preset: EqPreset;
+  // Evens out loud and quiet passages, mostly for listening at low volume
+  compressor: boolean;
+  mono: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { preset: 'flat', compressor: false, mono: false };
+
+// Centre frequencies (Hz); the first and last bands are shelves
+const EQ_BANDS = [60, 230, 910, 3600, 14000];
+
+// Gain per band in dB; display names live in the message catalogs under "eq.<preset>"
+export const EQ_PRESETS: Record<EqPreset, { gains: number[] }> = {
+  flat: { gains: [0, 0, 0, 0, 0] },
+  pop: { gains: [-1, 3, 4, 2, -1] },
+  bass: { gains: [7, 4, 0, 0, 0] },
+  voice: { gains: [-3, -1, 3, 4, 1] },
+  night: { gains: [-4, -2, 1, 1, -3] }
+};
+
+export interface AudioChain {
+  input: AudioNode;
+  output: AudioNode;
+  apply(settings: AudioSettings): void;
+}
+
+// Equalizer → compressor → mono downmix. Every node stays connected; "off" settings are neutral
+// parameter values, so changes apply without rebuilding the graph or interrupting playback.
+export function createAudioChain(context: AudioContext): AudioChain {
+  const filters = EQ_BANDS.map((frequency, index) => {
+    const filter = context.createBiquadFilter();
+    filter.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = 1;
+    return filter;
+  });
+
+  const compressor = context.createDynamicsCompressor();
+
+  // A node limited to one channel downmixes its input; the destination spreads it back to both speakers
+  const downmix = context.createGain();
+  downmix.channelCountMode = 'explicit';
+  downmix.channelInterpretation = 'speakers';
+
+  for (let i = 0; i < filters.length - 1; i++) filters[i].connect(filters[i + 1]);
+  filters[filters.length - 1].connect(compressor);
+  compressor.connect(downmix);
+
+  const now = () => context.currentTime;
+
+  return {
+    input: filters[0],
+    output: downmix,
+    apply({ preset, compressor: compress, mono }) {
+      const { gains } = EQ_PRESETS[preset] ?? EQ_PRESETS.flat;
+      // Short ramps avoid clicks when switching presets
+      filters.forEach((filter, index) => filter.gain.setTargetAtTime(gains[index], now(), 0.05));
+
+      compressor.threshold.setValueAtTime(compress ? -30 : 0, now());
+      compressor.ratio.setValueAtTime(compress ? 6 : 1, now());
+      compressor.knee.setValueAtTime(compress ? 20 : 0, now());
+      compressor.attack.setValueAtTime(0.003, now());
+      compressor.release.setValueAtTime(0.25, now());
+
+      downmix.channelCount = mono ? 1 : 2;
+    }
+  };
+}
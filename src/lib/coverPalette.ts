@@ -0,0 +1,152 @@
+import type { CustomThemeColors } from './customThemes';
+
+type Rgb = [number, number, number];
+
+// Covers are scaled down before sampling; a few thousand pixels are plenty for a palette
+const SAMPLE_SIZE = 48;
+// WCAG AA for body text and for large text / UI components
+const MIN_TEXT_CONTRAST = 4.5;
+const MIN_ACCENT_CONTRAST = 3;
+const MAX_CACHED_PALETTES = 50;
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+// null marks covers that couldn't be read, so they aren't fetched again on every track change
+const palettes = new Map<string, CustomThemeColors | null>();
+
+const toHex = (rgb: Rgb) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+const fromHex = (hex: string): Rgb => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+const mix = (a: Rgb, b: Rgb, amount: number): Rgb => a.map((c, i) => c + (b[i] - c) * amount) as Rgb;
+
+const luminance = (rgb: Rgb) => {
+  const [r, g, b] = rgb.map((c) => {
+    const channel = c / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// HSL saturation and lightness, both 0-1
+const saturation = (rgb: Rgb) => {
+  const max = Math.max(...rgb) / 255;
+  const min = Math.min(...rgb) / 255;
+  const l = (max + min) / 2;
+  return max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+};
+const lightness = (rgb: Rgb) => (Math.max(...rgb) + Math.min(...rgb)) / 510;
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Mixes the colour towards white (or black) until it reaches the contrast ratio against the background
+const ensureContrast = (color: Rgb, background: Rgb, ratio: number): Rgb => {
+  const target = luminance(background) < 0.5 ? WHITE : BLACK;
+  for (let step = 0; step <= 10; step++) {
+    const candidate = mix(color, target, step / 10);
+    if (contrastRatio(candidate, background) >= ratio) return candidate;
+  }
+  return target;
+};
+
+interface Swatch {
+  rgb: Rgb;
+  count: number;
+}
+
+// Groups pixels into 4096 buckets (4 bits per channel) and averages each bucket, largest first
+function quantize(pixels: Uint8ClampedArray): Swatch[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += pixels[i];
+    bucket.g += pixels[i + 1];
+    bucket.b += pixels[i + 2];
+    bucket.count++;
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()]
+    .map(({ r, g, b, count }): Swatch => ({ rgb: [r / count, g / count, b / count], count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Builds a theme from the cover: the dominant colour, darkened, becomes the background and card so
+// the player keeps its dark look; the most vibrant colours become the accents. Text and accents are
+// adjusted until they are readable on the card.
+function paletteFromPixels(pixels: Uint8ClampedArray): CustomThemeColors | null {
+  const swatches = quantize(pixels);
+  if (swatches.length === 0) return null;
+
+  const dominant = swatches[0].rgb;
+  // Popular, saturated colours win; near-black and near-white buckets are never vibrant
+  const vibrancy = ({ rgb, count }: Swatch) => {
+    const l = lightness(rgb);
+    return l < 0.15 || l > 0.9 ? 0 : count * saturation(rgb) ** 2;
+  };
+  const byVibrancy = [...swatches].sort((a, b) => vibrancy(b) - vibrancy(a));
+  const vibrant = vibrancy(byVibrancy[0]) > 0 ? byVibrancy[0].rgb : mix(dominant, WHITE, 0.4);
+  const secondary = byVibrancy.find((swatch) => vibrancy(swatch) > 0 && distance(swatch.rgb, vibrant) > 80)?.rgb
+    ?? mix(vibrant, WHITE, 0.35);
+
+  const background = mix(dominant, BLACK, 0.8);
+  const card = mix(dominant, BLACK, 0.6);
+  const text = ensureContrast(mix(WHITE, vibrant, 0.1), card, MIN_TEXT_CONTRAST);
+
+  return {
+    background: toHex(background),
+    card: toHex(card),
+    accentFrom: toHex(ensureContrast(vibrant, card, MIN_ACCENT_CONTRAST)),
+    accentTo: toHex(ensureContrast(secondary, card, MIN_ACCENT_CONTRAST)),
+    text: toHex(text),
+    glow: toHex(vibrant)
+  };
+}
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Without CORS headers from the cover host the load fails here instead of tainting the canvas
+    image.crossOrigin = 'anonymous';
+    image.referrerPolicy = 'no-referrer';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Couldn't load cover ${url}`));
+    image.src = url;
+  });
+
+// Samples the cover through a canvas. Resolves null when the image can't be read (no CORS, a tainted
+// canvas, a broken URL), in which case the player keeps the active theme.
+export async function extractCoverPalette(url: string): Promise<CustomThemeColors | null> {
+  if (palettes.has(url)) return palettes.get(url) ?? null;
+
+  let palette: CustomThemeColors | null = null;
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (ctx) {
+      ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      // Throws a SecurityError when the canvas is tainted
+      palette = paletteFromPixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+    }
+  } catch (error) {
+    console.warn('Cover palette unavailable:', error instanceof Error ? error.message : String(error));
+  }
+
+  if (palettes.size >= MAX_CACHED_PALETTES) palettes.delete(palettes.keys().next().value!);
+  palettes.set(url, palette);
+  return palette;
+}
+
+// Interpolates every colour of the palette; amount goes from 0 (from) to 1 (to)
+export const blendPalettes = (from: CustomThemeColors, to: CustomThemeColors, amount: number): CustomThemeColors =>
+  Object.fromEntries(
+    (Object.keys(to) as (keyof CustomThemeColors)[]).map((key) => [key, toHex(mix(fromHex(from[key]), fromHex(to[key]), amount))])
+  ) as unknown as CustomThemeColors;
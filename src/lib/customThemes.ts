@@ -0,0 +1,86 @@
+export type CustomThemeId = `custom:${string}`;
+
+export interface CustomThemeColors {
+  background: string;
+  card: string;
+  accentFrom: string;
+  accentTo: string;
+  text: string;
+  glow: string;
+}
+
+export interface CustomTheme {
+  id: CustomThemeId;
+  name: string;
+  colors: CustomThemeColors;
+}
+
+// Colours are #rrggbb so they work with <input type="color"> and can take an alpha suffix
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const COLOR_KEYS: (keyof CustomThemeColors)[] = ['background', 'card', 'accentFrom', 'accentTo', 'text', 'glow'];
+export const MAX_THEME_NAME_LENGTH = 40;
+
+export const DEFAULT_CUSTOM_COLORS: CustomThemeColors = {
+  background: '#0b0b14',
+  card: '#1c1c2e',
+  accentFrom: '#8b5cf6',
+  accentTo: '#ec4899',
+  text: '#ffffff',
+  glow: '#8b5cf6'
+};
+
+export const isCustomThemeId = (value: string): value is CustomThemeId => value.startsWith('custom:');
+
+export const newCustomThemeId = (): CustomThemeId =>
+  `custom:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const isColors = (value: any): value is CustomThemeColors =>
+  value !== null && typeof value === 'object' && COLOR_KEYS.every((key) => typeof value[key] === 'string' && HEX_COLOR.test(value[key]));
+
+// CSS custom properties read by the custom theme's Tailwind classes. Card, border, subtext and glow
+// are derived with an alpha suffix so a handful of colours still gives the glassy look of the built-ins.
+export const customThemeVariables = (colors: CustomThemeColors): Record<string, string> => ({
+  '--theme-bg': colors.background,
+  '--theme-card': `${colors.card}cc`,
+  '--theme-border': `${colors.text}1a`,
+  '--theme-text': colors.text,
+  '--theme-subtext': `${colors.text}99`,
+  '--theme-accent-from': colors.accentFrom,
+  '--theme-accent-to': colors.accentTo,
+  '--theme-glow': `${colors.glow}66`
+});
+
+export const themesToJson = (themes: CustomTheme[]) =>
+  JSON.stringify({ version: 1, themes: themes.map(({ name, colors }) => ({ name, colors })) }, null, 2);
+
+// Accepts an export file, a bare array or a single theme. Imported themes get fresh ids so they never
+// replace the listener's own; throws when nothing in the file is a valid theme.
+export function parseThemes(json: string): CustomTheme[] {
+  const data = JSON.parse(json);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.themes) ? data.themes : [data];
+  const themes = items
+    .filter((item: any) => item && typeof item.name === 'string' && item.name.trim() && isColors(item.colors))
+    .map((item: any): CustomTheme => ({
+      id: newCustomThemeId(),
+      name: item.name.trim().slice(0, MAX_THEME_NAME_LENGTH),
+      colors: Object.fromEntries(COLOR_KEYS.map((key) => [key, item.colors[key].toLowerCase()])) as unknown as CustomThemeColors
+    }));
+
+  if (themes.length === 0) throw new Error('No valid themes in file');
+  return themes;
+}
+
+// Themes saved in localStorage went through parseThemes or the editor, but the storage is still
+// user-editable, so entries are checked again on load
+export function loadCustomThemes(saved: string | null): CustomTheme[] {
+  if (!saved) return [];
+  try {
+    const data = JSON.parse(saved);
+    return Array.isArray(data)
+      ? data.filter((item) => typeof item?.id === 'string' && isCustomThemeId(item.id) && typeof item.name === 'string' && isColors(item.colors))
+      : [];
+  } catch (e) {
+    console.error('Failed to parse custom themes', e);
+    return [];
+  }
+}
@@ -0,0 +1,13 @@
+const DEVICE_KEY = 'radio_device_id';
+
+// Anonymous id the server uses to count one vote per track per browser
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
@@ -0,0 +1,40 @@
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Keeps Tab and Shift+Tab cycling inside the container and closes it on Escape. Focus moves to the
+// first control on activation and back to whatever had it before on release.
+export function trapFocus(container: HTMLElement, onEscape: () => void): () => void {
+  const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+  const focusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onEscape();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+
+    const elements = focusable();
+    if (elements.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = elements[0];
+    const last = elements[elements.length - 1];
+    if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  (focusable()[0] ?? container).focus();
+  document.addEventListener('keydown', handleKeyDown, true);
+  return () => {
+    document.removeEventListener('keydown', handleKeyDown, true);
+    previouslyFocused?.focus();
+  };
+}
@@ -0,0 +1,42 @@
+import type { Locale } from '../types';
+import { ptBR, type Messages } from '../locales/pt-BR';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+
+export type MessageKey = keyof Messages;
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language's name in that language, for the switcher
+export const LOCALES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español'
+};
+
+const catalogs: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es };
+
+export const isMessageKey = (value: string): value is MessageKey =>
+  Object.prototype.hasOwnProperty.call(ptBR, value);
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// A saved choice wins; otherwise the first browser language we have a catalog for, matching
+// "pt-PT" to pt-BR and "en-GB" to en
+export function detectLocale(saved?: string | null): Locale {
+  if (isLocale(saved)) return saved;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const prefix = language.toLowerCase().split('-')[0];
+    const match = (Object.keys(LOCALES) as Locale[]).find((locale) => locale.toLowerCase().split('-')[0] === prefix);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Fills "{name}" placeholders from params; unknown placeholders are left as they are
+export const createTranslator = (locale: Locale): Translate => (key, params) =>
+  catalogs[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params?.[name] !== undefined ? String(params[name]) : placeholder
+  );
@@ -0,0 +1,27 @@
+import type { LikedTrack, Track } from '../types';
+import { trackKey } from './trackKey';
+
+// Likes are matched the same way the server matches votes
+export const likeKey = (track: Track) => trackKey(track.artist, track.title);
+
+// Quotes cells that need it and defuses values spreadsheets would run as formulas
+const csvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export function likesToCsv(likes: LikedTrack[]): string {
+  const rows = likes.map((like) =>
+    [like.artist, like.title, like.cover || '', new Date(like.likedAt).toISOString()].map(csvCell).join(',')
+  );
+  return ['artist,title,cover,likedAt', ...rows].join('\r\n');
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,239 @@
+import type Hls from 'hls.js';
+import type { StreamSource } from './streamSources';
+
+export type PlaybackState = 'idle' | 'connecting' | 'playing' | 'reconnecting' | 'failed';
+
+export interface PlaybackStatus {
+  state: PlaybackState;
+  // Reconnect attempt number, 0 while the stream is healthy
+  attempt: number;
+  maxAttempts: number;
+  url?: string;
+  // When the next reconnect attempt happens (ms since epoch)
+  retryAt?: number;
+  reason?: string;
+}
+
+export interface PlaybackSupervisorOptions {
+  audio: HTMLAudioElement;
+  getAnalyser: () => AnalyserNode | null;
+  onStatus: (status: PlaybackStatus) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // How long the stream may buffer (`waiting`/`stalled`) before we reconnect
+  stallTimeoutMs?: number;
+  // How long the analyser may read pure silence while playing before we reconnect
+  silenceTimeoutMs?: number;
+}
+
+export interface PlaybackSupervisor {
+  // Starts (or restarts) playback of the first source, moving on to the next one on failure.
+  // `lowBitrate` pins HLS played through hls.js to its lightest rendition.
+  start(sources: StreamSource[], lowBitrate?: boolean): void;
+  stop(): void;
+  dispose(): void;
+}
+
+// Keeps a live stream playing: watches media events and the analyser for stalls, drops and
+// silence, and reconnects with exponential backoff while rotating through alternate stream sources
+export function createPlaybackSupervisor({
+  audio,
+  getAnalyser,
+  onStatus,
+  maxAttempts = 8,
+  baseDelayMs = 1000,
+  maxDelayMs = 30000,
+  stallTimeoutMs = 10000,
+  silenceTimeoutMs = 20000
+}: PlaybackSupervisorOptions): PlaybackSupervisor {
+  let active = false;
+  let sources: StreamSource[] = [];
+  let sourceIndex = 0;
+  let lowBitrate = false;
+  let hls: Hls | null = null;
+  // Bumped whenever playback is restarted, so a slow hls.js import can't attach to a stale session
+  let session = 0;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stallTimer: ReturnType<typeof setTimeout> | null = null;
+  let silenceTimer: ReturnType<typeof setInterval> | null = null;
+  let silentSince: number | null = null;
+
+  const report = (state: PlaybackState, extra: Partial<PlaybackStatus> = {}) =>
+    onStatus({ state, attempt, maxAttempts, url: sources[sourceIndex]?.url, ...extra });
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (stallTimer) clearTimeout(stallTimer);
+    if (silenceTimer) clearInterval(silenceTimer);
+    retryTimer = stallTimer = silenceTimer = null;
+    silentSince = null;
+  };
+
+  const destroyHls = () => {
+    hls?.destroy();
+    hls = null;
+  };
+
+  const unload = () => {
+    destroyHls();
+    audio.pause();
+    // Removing the attribute (rather than src = "") unloads without firing an error event
+    audio.removeAttribute('src');
+    audio.load();
+  };
+
+  // Loaded on demand so listeners on progressive streams never download it
+  const attachHls = async (url: string, current: number) => {
+    const { default: HlsClass } = await import('hls.js');
+    if (current !== session) return false;
+
+    hls = new HlsClass({ startLevel: lowBitrate ? 0 : -1 });
+    if (lowBitrate) hls.autoLevelCapping = 0;
+    hls.on(HlsClass.Events.ERROR, (_event, data) => {
+      if (data.fatal) scheduleReconnect(`hls-${data.type}`);
+    });
+    hls.loadSource(url);
+    hls.attachMedia(audio);
+    return true;
+  };
+
+  const connect = async () => {
+    if (!active) return;
+    const current = session;
+    const source = sources[sourceIndex];
+    report(attempt === 0 ? 'connecting' : 'reconnecting');
+
+    if (source.type === 'mse-hls') {
+      try {
+        if (!(await attachHls(source.url, current))) return;
+      } catch (error) {
+        console.error("HLS playback unavailable:", error);
+        scheduleReconnect('hls-unavailable');
+        return;
+      }
+    } else {
+      audio.src = source.url;
+      audio.load();
+    }
+
+    audio.play().catch((error) => {
+      // Interrupted by a restart; the new session is in charge now
+      if (current !== session) return;
+      // Autoplay refusals won't get better by retrying
+      if (error?.name === 'NotAllowedError') {
+        active = false;
+        clearTimers();
+        report('failed', { reason: 'not-allowed' });
+      } else {
+        scheduleReconnect('play-error');
+      }
+    });
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    if (!active || retryTimer) return;
+    session++;
+    clearTimers();
+    unload();
+
+    attempt++;
+    if (attempt > maxAttempts) {
+      active = false;
+      report('failed', { reason });
+      return;
+    }
+
+    // Try the next mount/protocol on every failure, backing off once a full round has failed
+    sourceIndex = (sourceIndex + 1) % sources.length;
+    const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs) * (0.8 + Math.random() * 0.4);
+    report('reconnecting', { retryAt: Date.now() + delay, reason });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const checkSilence = () => {
+    const analyser = getAnalyser();
+    // Muted output still reaches the analyser as silence, so skip the check then
+    if (!analyser || audio.paused || audio.muted || audio.volume === 0) {
+      silentSince = null;
+      return;
+    }
+
+    const samples = new Uint8Array(analyser.fftSize);
+    analyser.getByteTimeDomainData(samples);
+    const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample - 128)), 0);
+
+    if (peak > 1) {
+      silentSince = null;
+    } else if (silentSince === null) {
+      silentSince = Date.now();
+    } else if (Date.now() - silentSince > silenceTimeoutMs) {
+      scheduleReconnect('silence');
+    }
+  };
+
+  const handlePlaying = () => {
+    if (!active) return;
+    if (stallTimer) clearTimeout(stallTimer);
+    stallTimer = null;
+    attempt = 0;
+    report('playing');
+    if (!silenceTimer) silenceTimer = setInterval(checkSilence, 1000);
+  };
+
+  const handleBuffering = () => {
+    if (!active || stallTimer || retryTimer) return;
+    stallTimer = setTimeout(() => {
+      stallTimer = null;
+      scheduleReconnect('stalled');
+    }, stallTimeoutMs);
+  };
+
+  const handleFailure = (event: Event) => {
+    if (!active) return;
+    scheduleReconnect(event.type);
+  };
+
+  audio.addEventListener('playing', handlePlaying);
+  audio.addEventListener('waiting', handleBuffering);
+  audio.addEventListener('stalled', handleBuffering);
+  audio.addEventListener('error', handleFailure);
+  audio.addEventListener('ended', handleFailure);
+
+  return {
+    start(nextSources, nextLowBitrate = false) {
+      session++;
+      clearTimers();
+      destroyHls();
+      active = true;
+      sources = nextSources;
+      sourceIndex = 0;
+      lowBitrate = nextLowBitrate;
+      attempt = 0;
+      connect();
+    },
+    stop() {
+      session++;
+      active = false;
+      clearTimers();
+      unload();
+      attempt = 0;
+      report('idle');
+    },
+    dispose() {
+      session++;
+      active = false;
+      clearTimers();
+      destroyHls();
+      audio.removeEventListener('playing', handlePlaying);
+      audio.removeEventListener('waiting', handleBuffering);
+      audio.removeEventListener('stalled', handleBuffering);
+      audio.removeEventListener('error', handleFailure);
+      audio.removeEventListener('ended', handleFailure);
+    }
+  };
+}
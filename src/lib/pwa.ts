@@ -0,0 +1,24 @@
+/// <reference types="vite/client" />
+
+// Chromium's install prompt event, which isn't in the DOM typings
+export interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
+}
+
+// Only production builds get a service worker; in dev it would cache Vite's modules
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
+
+export const isStandalone = () =>
+  window.matchMedia('(display-mode: standalone)').matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+// iOS never fires beforeinstallprompt; the app is added through Safari's share sheet instead
+export const needsManualInstall = () => /iphone|ipad|ipod/i.test(navigator.userAgent) && !isStandalone();
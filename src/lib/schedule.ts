@@ -0,0 +1,18 @@
+// Next time the clock shows `time` ("HH:MM", local time), strictly after `from`
+export function nextOccurrence(time: string, from = Date.now()): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(from);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= from) next.setDate(next.getDate() + 1);
+  return next.getTime();
+}
+
+// "mm:ss", or "h:mm:ss" from an hour up
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,36 @@
+import type { Station } from '../types';
+
+export type StreamSourceType = 'progressive' | 'native-hls' | 'mse-hls';
+
+export interface StreamSource {
+  url: string;
+  type: StreamSourceType;
+}
+
+const canPlayHlsNatively = (audio: HTMLMediaElement) =>
+  audio.canPlayType('application/vnd.apple.mpegurl') !== '';
+
+// hls.js needs Media Source Extensions (or Safari's ManagedMediaSource) with AAC support
+const canPlayHlsWithMse = () => {
+  const MediaSourceClass = window.MediaSource || (window as any).ManagedMediaSource;
+  return Boolean(MediaSourceClass?.isTypeSupported?.('audio/mp4; codecs="mp4a.40.2"'));
+};
+
+// Orders a station's streams for the current browser: HLS first when it can be played, then the
+// progressive mounts. In data saver mode the low-bitrate mounts come first, except with hls.js,
+// which can itself be pinned to the lowest rendition.
+export function getStreamSources(station: Station, audio: HTMLMediaElement, dataSaver: boolean): StreamSource[] {
+  const progressive = station.streams.map((url): StreamSource => ({ url, type: 'progressive' }));
+  const lowBitrate = (station.lowBitrateStreams || []).map((url): StreamSource => ({ url, type: 'progressive' }));
+
+  if (station.hls && canPlayHlsWithMse()) {
+    return [{ url: station.hls, type: 'mse-hls' }, ...(dataSaver ? lowBitrate : []), ...progressive];
+  }
+  if (station.hls && canPlayHlsNatively(audio)) {
+    // Native players pick renditions on their own, so prefer a mount we know is light
+    return dataSaver
+      ? [...lowBitrate, { url: station.hls, type: 'native-hls' }, ...progressive]
+      : [{ url: station.hls, type: 'native-hls' }, ...progressive];
+  }
+  return dataSaver ? [...lowBitrate, ...progressive] : progressive;
+}
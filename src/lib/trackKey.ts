@@ -0,0 +1,4 @@
+// Identifies a track across stations, caches and devices: artist and title, ignoring case and
+// surrounding spaces. Shared by the server and the player's liked-songs library.
+export const trackKey = (artist: string, title: string) =>
+  `${artist.trim().toLowerCase()}|${title.trim().toLowerCase()}`;
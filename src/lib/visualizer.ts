@@ -0,0 +1,151 @@
+export type VisualizerMode = 'bars' | 'mirror' | 'circular' | 'waveform' | 'particles';
+
+export const VISUALIZER_MODES: VisualizerMode[] = ['bars', 'mirror', 'circular', 'waveform', 'particles'];
+
+// Gradient from the bottom (or centre) colour to the top (or outer) colour
+export type VisualizerColors = [string, string];
+
+export interface Visualizer {
+  draw(mode: VisualizerMode, colors: VisualizerColors): void;
+}
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  size: number;
+}
+
+const MAX_PARTICLES = 120;
+const BAR_COUNT = 32;
+
+// The upper part of the spectrum is nearly always empty for music, so bars only cover the lower 70%
+const spectrumLevel = (data: Uint8Array, index: number, count: number) =>
+  data[Math.floor((index / count) * data.length * 0.7)] / 255;
+
+// Draws one frame per call from the analyser's current data; keeps the buffers and particle
+// state between frames
+export function createVisualizer(canvas: HTMLCanvasElement, analyser: AnalyserNode): Visualizer {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { draw: () => {} };
+
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+  const samples = new Uint8Array(analyser.fftSize);
+  let particles: Particle[] = [];
+
+  const verticalGradient = (colors: VisualizerColors, top: number, bottom: number) => {
+    const gradient = ctx.createLinearGradient(0, bottom, 0, top);
+    gradient.addColorStop(0, colors[0]);
+    gradient.addColorStop(1, colors[1]);
+    return gradient;
+  };
+
+  const drawBars = (colors: VisualizerColors, width: number, height: number) => {
+    const barWidth = width / BAR_COUNT - 2;
+    ctx.fillStyle = verticalGradient(colors, height / 2, height);
+    for (let i = 0; i < BAR_COUNT; i++) {
+      const barHeight = spectrumLevel(frequencies, i, BAR_COUNT) * (height / 2);
+      ctx.fillRect(i * (barWidth + 2), height - barHeight, barWidth, barHeight);
+    }
+  };
+
+  // Symmetric around the horizontal centre line, lows in the middle spreading out to the highs
+  const drawMirror = (colors: VisualizerColors, width: number, height: number) => {
+    const half = BAR_COUNT / 2;
+    const barWidth = width / BAR_COUNT - 2;
+    const middle = height * 0.75;
+    ctx.fillStyle = verticalGradient(colors, height / 2, middle);
+    for (let i = 0; i < half; i++) {
+      const barHeight = spectrumLevel(frequencies, i, half) * (height / 4);
+      for (const x of [width / 2 + i * (barWidth + 2), width / 2 - (i + 1) * (barWidth + 2)]) {
+        ctx.fillRect(x, middle - barHeight, barWidth, barHeight * 2);
+      }
+    }
+  };
+
+  const drawCircular = (colors: VisualizerColors, width: number, height: number) => {
+    const radius = Math.min(width, height) * 0.3;
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, radius, width / 2, height / 2, radius * 1.6);
+    gradient.addColorStop(0, colors[0]);
+    gradient.addColorStop(1, colors[1]);
+    ctx.strokeStyle = gradient;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+
+    const count = BAR_COUNT * 2;
+    for (let i = 0; i < count; i++) {
+      // Mirror the spectrum so both halves of the ring match up at the top and bottom
+      const level = spectrumLevel(frequencies, i < BAR_COUNT ? i : count - 1 - i, BAR_COUNT);
+      const angle = (i / count) * Math.PI * 2 - Math.PI / 2;
+      const length = 4 + level * radius * 0.6;
+      ctx.beginPath();
+      ctx.moveTo(width / 2 + Math.cos(angle) * radius, height / 2 + Math.sin(angle) * radius);
+      ctx.lineTo(width / 2 + Math.cos(angle) * (radius + length), height / 2 + Math.sin(angle) * (radius + length));
+      ctx.stroke();
+    }
+  };
+
+  const drawWaveform = (colors: VisualizerColors, width: number, height: number) => {
+    analyser.getByteTimeDomainData(samples);
+    const gradient = ctx.createLinearGradient(0, 0, width, 0);
+    gradient.addColorStop(0, colors[0]);
+    gradient.addColorStop(1, colors[1]);
+    ctx.strokeStyle = gradient;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let i = 0; i < samples.length; i++) {
+      const x = (i / (samples.length - 1)) * width;
+      const y = height * 0.75 + ((samples[i] - 128) / 128) * (height / 4);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  };
+
+  // Bass energy spawns particles from the bottom; they drift up and fade out
+  const drawParticles = (colors: VisualizerColors, width: number, height: number) => {
+    const bass = spectrumLevel(frequencies, 0, BAR_COUNT);
+    const spawn = Math.round(bass * 4);
+    for (let i = 0; i < spawn && particles.length < MAX_PARTICLES; i++) {
+      particles.push({
+        x: Math.random() * width,
+        y: height,
+        vx: (Math.random() - 0.5) * 1.5,
+        vy: -(1 + Math.random() * 3 * bass),
+        life: 1,
+        size: 1 + Math.random() * 3
+      });
+    }
+
+    particles = particles.filter((particle) => particle.life > 0 && particle.y > 0);
+    for (const particle of particles) {
+      particle.x += particle.vx;
+      particle.y += particle.vy;
+      particle.life -= 0.01;
+      ctx.globalAlpha = Math.max(0, particle.life);
+      ctx.fillStyle = particle.y > height * 0.75 ? colors[0] : colors[1];
+      ctx.beginPath();
+      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  const renderers: Record<VisualizerMode, (colors: VisualizerColors, width: number, height: number) => void> = {
+    bars: drawBars,
+    mirror: drawMirror,
+    circular: drawCircular,
+    waveform: drawWaveform,
+    particles: drawParticles
+  };
+
+  return {
+    draw(mode, colors) {
+      analyser.getByteFrequencyData(frequencies);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      (renderers[mode] ?? drawBars)(colors, canvas.width, canvas.height);
+    }
+  };
+}
@@ -0,0 +1,163 @@
+import type { Messages } from './pt-BR';
+
+export const en: Messages = {
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.remove': 'Remove',
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.retry': 'Try again',
+
+  'player.heading': 'ONLINE RADIO',
+  'player.loading': 'Loading...',
+  'player.metadataError': 'Couldn\'t load track info',
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.nowPlaying': 'Now playing',
+  'player.ready': 'Ready to play',
+  'player.announce': 'Now playing: {title}, by {artist}',
+  'player.mute': 'Mute',
+  'player.volume': 'Volume',
+  'player.like': 'Like',
+  'player.unlike': 'Remove from Likes',
+  'player.dislike': 'Dislike',
+  'player.removeVote': 'Remove vote',
+  'player.insight': 'AI trivia',
+  'player.anotherInsight': 'ANOTHER FACT',
+
+  'status.reconnecting': 'Reconnecting ({attempt}/{max})',
+  'status.failed': 'Connection Failed',
+  'status.online': 'Stable Stream',
+  'status.offline': 'Server Offline',
+  'status.dataSaver': 'Data saver',
+  'status.saving': 'Data Saver',
+  'status.highQuality': 'High Quality',
+  'status.listenersOne': '{count} listener now',
+  'status.listenersOther': '{count} listeners now',
+  'status.peak': 'Peak: {count} listeners',
+
+  'header.lyrics': 'Lyrics',
+  'header.themes': 'Themes',
+  'header.equalizer': 'Equalizer',
+  'header.timer': 'Timer & Alarm',
+  'header.install': 'Install app',
+  'header.station': 'Station: {name}',
+  'header.language': 'Language',
+
+  'themes.title': 'Choose a Theme',
+  'themes.auto': 'AUTO',
+  'themes.autoHint': 'Switches automatically with the time of day',
+  'themes.cover': 'COVER',
+  'themes.coverHint': 'Automatic from the cover: colors taken from the album art',
+  'themes.visualizer': 'Visualizer',
+  'theme.neon': 'Vibrant Neon',
+  'theme.neon_soft': 'Soft Neon',
+  'theme.dark': 'Dark',
+  'theme.pastel': 'Pastel',
+  'theme.ocean': 'Ocean',
+  'themes.new': 'New',
+  'themes.import': 'Import',
+  'themes.export': 'Export',
+  'themes.edit': 'Edit theme',
+  'themes.delete': 'Delete theme',
+  'editor.title': 'Theme Editor',
+  'editor.name': 'Name',
+  'editor.defaultName': 'My theme',
+  'editor.background': 'Background',
+  'editor.card': 'Card',
+  'editor.accentFrom': 'Accent 1',
+  'editor.accentTo': 'Accent 2',
+  'editor.text': 'Text',
+  'editor.glow': 'Glow',
+  'editor.save': 'Save',
+  'visualizer.bars': 'Bars',
+  'visualizer.mirror': 'Mirrored',
+  'visualizer.circular': 'Circular',
+  'visualizer.waveform': 'Wave',
+  'visualizer.particles': 'Particles',
+
+  'eq.flat': 'Flat',
+  'eq.pop': 'Pop',
+  'eq.bass': 'Bass Boost',
+  'eq.voice': 'Voice',
+  'eq.night': 'Night',
+  'audio.compressor': 'Night Compressor',
+  'audio.mono': 'Mono',
+
+  'timer.title': 'Sleep Timer',
+  'timer.endsIn': 'Stops in {time}',
+  'timer.minutes': '{count} min',
+  'timer.placeholder': 'min',
+  'timer.ok': 'OK',
+  'alarm.title': 'Alarm',
+  'alarm.keepOpen': 'Keep this page open for the alarm to ring.',
+
+  'stations.title': 'Choose a Station',
+  'language.title': 'Language',
+
+  'history.title': 'Recently Played',
+  'history.empty': 'No songs in the history yet.',
+  'history.loadMore': 'Load more',
+  'likes.title': 'My Likes',
+  'likes.count': 'My Likes ({count})',
+  'likes.export': 'Export as {format}',
+  'likes.search': 'Search artist or song',
+  'likes.noMatches': 'No likes found.',
+  'likes.empty': 'Tap the heart to keep the songs you like.',
+  'charts.title': 'Most Liked',
+  'charts.day': 'Today',
+  'charts.week': 'Week',
+  'charts.month': 'Month',
+  'charts.empty': 'No votes in this period yet.',
+  'lyrics.title': 'Lyrics',
+  'lyrics.translate': 'TRANSLATION',
+  'lyrics.hint': 'Click the lyrics icon to load them.',
+  'lyrics.notFound': 'No lyrics found for this song. 😕',
+  'lyrics.error': 'Couldn\'t load the lyrics. Please try again later. 🛠️',
+  'lyrics.translationEmpty': 'Couldn\'t translate right now. 🎵',
+  'insight.empty': 'Couldn\'t find any trivia right now. 🎵',
+  'insight.error': 'Oops! Something went wrong while looking for trivia. 🎸',
+  'footer.partners': 'PARTNERS',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.space': 'Space',
+  'shortcuts.playPause': 'Play / pause',
+  'shortcuts.mute': 'Mute',
+  'shortcuts.volume': 'Volume',
+  'shortcuts.lyrics': 'Lyrics',
+  'shortcuts.history': 'Recently played',
+  'shortcuts.themes': 'Themes',
+  'shortcuts.help': 'Keyboard shortcuts',
+  'shortcuts.close': 'Close window',
+
+  'offline.title': 'No connection',
+  'offline.body': 'The radio will start again as soon as you\'re back online.',
+  'offline.lastTrack': 'Last song',
+
+  'toast.tapToPlay': 'Tap play to start',
+  'toast.connectFailed': 'Couldn\'t connect',
+  'toast.sleepIn': 'Stopping in {count} min',
+  'toast.goodMorning': 'Good morning!',
+  'toast.alarmSet': 'Alarm at {time}',
+  'toast.installed': 'App installed',
+  'toast.installHint': 'Tap Share, then "Add to Home Screen"',
+  'toast.tooManyVotes': 'Too many votes, try again later',
+  'toast.liked': 'Added to Likes',
+  'toast.unliked': 'Removed from Likes',
+  'toast.voted': 'Vote recorded',
+  'toast.muted': 'Muted',
+  'toast.unmuted': 'Sound On',
+  'toast.volume': 'Volume: {value}%',
+  'toast.dataSaverOn': 'Data Saver On',
+  'toast.dataSaverOff': 'Best Quality',
+  'toast.autoThemeOn': 'Automatic Mode On',
+  'toast.autoThemeOff': 'Automatic Mode Off',
+  'toast.coverThemeOn': 'Cover Colors On',
+  'toast.coverThemeOff': 'Cover Colors Off',
+  'toast.tooManyInsights': 'Too much trivia, try again in a bit',
+  'toast.tooManyTranslations': 'Too many translations, try again in a bit',
+  'toast.translationFailed': 'Couldn\'t translate the lyrics',
+  'toast.themeSaved': 'Theme saved',
+  'toast.themesImported': '{count} theme(s) imported',
+  'toast.themeImportFailed': 'Invalid themes file'
+};
@@ -0,0 +1,163 @@
+import type { Messages } from './pt-BR';
+
+export const es: Messages = {
+  'common.close': 'Cerrar',
+  'common.cancel': 'Cancelar',
+  'common.remove': 'Quitar',
+  'common.on': 'Activado',
+  'common.off': 'Desactivado',
+  'common.retry': 'Reintentar',
+
+  'player.heading': 'RADIO ONLINE',
+  'player.loading': 'Cargando...',
+  'player.metadataError': 'Error al cargar los metadatos',
+  'player.play': 'Reproducir',
+  'player.pause': 'Pausar',
+  'player.nowPlaying': 'Sonando ahora',
+  'player.ready': 'Listo para sonar',
+  'player.announce': 'Sonando ahora: {title}, de {artist}',
+  'player.mute': 'Silenciar',
+  'player.volume': 'Volumen',
+  'player.like': 'Me gusta',
+  'player.unlike': 'Quitar de Me gusta',
+  'player.dislike': 'No me gusta',
+  'player.removeVote': 'Quitar voto',
+  'player.insight': 'Curiosidad IA',
+  'player.anotherInsight': 'OTRA CURIOSIDAD',
+
+  'status.reconnecting': 'Reconectando ({attempt}/{max})',
+  'status.failed': 'Fallo de Conexión',
+  'status.online': 'Transmisión Estable',
+  'status.offline': 'Servidor Fuera de Línea',
+  'status.dataSaver': 'Ahorro de datos',
+  'status.saving': 'Ahorro',
+  'status.highQuality': 'Alta Calidad',
+  'status.listenersOne': '{count} oyente ahora',
+  'status.listenersOther': '{count} oyentes ahora',
+  'status.peak': 'Pico: {count} oyentes',
+
+  'header.lyrics': 'Letras',
+  'header.themes': 'Temas',
+  'header.equalizer': 'Ecualizador',
+  'header.timer': 'Temporizador y Alarma',
+  'header.install': 'Instalar app',
+  'header.station': 'Radio: {name}',
+  'header.language': 'Idioma',
+
+  'themes.title': 'Elige el Tema',
+  'themes.auto': 'AUTO',
+  'themes.autoHint': 'Cambia automáticamente según la hora',
+  'themes.cover': 'PORTADA',
+  'themes.coverHint': 'Automático por la portada: colores tomados de la carátula',
+  'themes.visualizer': 'Visualizador',
+  'theme.neon': 'Neón Vibrante',
+  'theme.neon_soft': 'Neón Suave',
+  'theme.dark': 'Oscuro',
+  'theme.pastel': 'Pastel',
+  'theme.ocean': 'Océano',
+  'themes.new': 'Nuevo',
+  'themes.import': 'Importar',
+  'themes.export': 'Exportar',
+  'themes.edit': 'Editar tema',
+  'themes.delete': 'Eliminar tema',
+  'editor.title': 'Editor de Tema',
+  'editor.name': 'Nombre',
+  'editor.defaultName': 'Mi tema',
+  'editor.background': 'Fondo',
+  'editor.card': 'Tarjeta',
+  'editor.accentFrom': 'Acento 1',
+  'editor.accentTo': 'Acento 2',
+  'editor.text': 'Texto',
+  'editor.glow': 'Brillo',
+  'editor.save': 'Guardar',
+  'visualizer.bars': 'Barras',
+  'visualizer.mirror': 'Espejo',
+  'visualizer.circular': 'Circular',
+  'visualizer.waveform': 'Onda',
+  'visualizer.particles': 'Partículas',
+
+  'eq.flat': 'Normal',
+  'eq.pop': 'Pop',
+  'eq.bass': 'Bass Boost',
+  'eq.voice': 'Voz',
+  'eq.night': 'Noche',
+  'audio.compressor': 'Compresor Nocturno',
+  'audio.mono': 'Mono',
+
+  'timer.title': 'Temporizador para Dormir',
+  'timer.endsIn': 'Se apaga en {time}',
+  'timer.minutes': '{count} min',
+  'timer.placeholder': 'min',
+  'timer.ok': 'OK',
+  'alarm.title': 'Alarma',
+  'alarm.keepOpen': 'Deja esta página abierta para que suene la alarma.',
+
+  'stations.title': 'Elige la Radio',
+  'language.title': 'Idioma',
+
+  'history.title': 'Sonadas Recientemente',
+  'history.empty': 'Todavía no hay canciones en el historial.',
+  'history.loadMore': 'Cargar más',
+  'likes.title': 'Mis Me gusta',
+  'likes.count': 'Mis Me gusta ({count})',
+  'likes.export': 'Exportar como {format}',
+  'likes.search': 'Buscar artista o canción',
+  'likes.noMatches': 'No se encontraron canciones.',
+  'likes.empty': 'Toca el corazón para guardar las canciones que te gusten.',
+  'charts.title': 'Más Votadas',
+  'charts.day': 'Hoy',
+  'charts.week': 'Semana',
+  'charts.month': 'Mes',
+  'charts.empty': 'Todavía no hay votos en este período.',
+  'lyrics.title': 'Letra de la Canción',
+  'lyrics.translate': 'TRADUCCIÓN',
+  'lyrics.hint': 'Haz clic en el icono de letra para cargarla.',
+  'lyrics.notFound': 'No se encontró la letra de esta canción. 😕',
+  'lyrics.error': 'Error al cargar la letra. Inténtalo más tarde. 🛠️',
+  'lyrics.translationEmpty': 'No pude traducirla ahora. 🎵',
+  'insight.empty': 'No encontré curiosidades ahora. 🎵',
+  'insight.error': '¡Ups! Hubo un error al buscar curiosidades. 🎸',
+  'footer.partners': 'SOCIOS',
+
+  'shortcuts.title': 'Atajos de Teclado',
+  'shortcuts.space': 'Espacio',
+  'shortcuts.playPause': 'Reproducir / pausar',
+  'shortcuts.mute': 'Silenciar',
+  'shortcuts.volume': 'Volumen',
+  'shortcuts.lyrics': 'Letras',
+  'shortcuts.history': 'Sonadas recientemente',
+  'shortcuts.themes': 'Temas',
+  'shortcuts.help': 'Atajos de teclado',
+  'shortcuts.close': 'Cerrar ventana',
+
+  'offline.title': 'Sin conexión',
+  'offline.body': 'La radio volverá a sonar en cuanto vuelva internet.',
+  'offline.lastTrack': 'Última canción',
+
+  'toast.tapToPlay': 'Toca play para empezar',
+  'toast.connectFailed': 'No se pudo conectar',
+  'toast.sleepIn': 'Apagando en {count} min',
+  'toast.goodMorning': '¡Buenos días!',
+  'toast.alarmSet': 'Alarma a las {time}',
+  'toast.installed': 'App instalada',
+  'toast.installHint': 'Toca Compartir y luego "Agregar a inicio"',
+  'toast.tooManyVotes': 'Demasiados votos, inténtalo más tarde',
+  'toast.liked': 'Añadida a Me gusta',
+  'toast.unliked': 'Quitada de Me gusta',
+  'toast.voted': 'Voto registrado',
+  'toast.muted': 'Silenciado',
+  'toast.unmuted': 'Sonido Activado',
+  'toast.volume': 'Volumen: {value}%',
+  'toast.dataSaverOn': 'Ahorro de Datos Activado',
+  'toast.dataSaverOff': 'Máxima Calidad',
+  'toast.autoThemeOn': 'Modo Automático Activado',
+  'toast.autoThemeOff': 'Modo Automático Desactivado',
+  'toast.coverThemeOn': 'Colores de la portada activados',
+  'toast.coverThemeOff': 'Colores de la portada desactivados',
+  'toast.tooManyInsights': 'Demasiadas curiosidades, inténtalo en un rato',
+  'toast.tooManyTranslations': 'Demasiadas traducciones, inténtalo en un rato',
+  'toast.translationFailed': 'Error al traducir la letra',
+  'toast.themeSaved': 'Tema guardado',
+  'toast.themesImported': '{count} tema(s) importado(s)',
+  'toast.themeImportFailed': 'Archivo de temas no válido'
+};
@@ -0,0 +1,164 @@
+// Source catalog: the other locales must provide every key defined here
+export const ptBR = {
+  'common.close': 'Fechar',
+  'common.cancel': 'Cancelar',
+  'common.remove': 'Remover',
+  'common.on': 'Ativado',
+  'common.off': 'Desativado',
+  'common.retry': 'Tentar novamente',
+
+  'player.heading': 'RADIO ONLINE',
+  'player.loading': 'Carregando...',
+  'player.metadataError': 'Erro ao carregar metadados',
+  'player.play': 'Tocar',
+  'player.pause': 'Pausar',
+  'player.nowPlaying': 'Tocando agora',
+  'player.ready': 'Pronto para tocar',
+  'player.announce': 'Tocando agora: {title}, de {artist}',
+  'player.mute': 'Mudo',
+  'player.volume': 'Volume',
+  'player.like': 'Curtir',
+  'player.unlike': 'Remover das Curtidas',
+  'player.dislike': 'Não curti',
+  'player.removeVote': 'Remover voto',
+  'player.insight': 'Curiosidade AI',
+  'player.anotherInsight': 'OUTRA CURIOSIDADE',
+
+  'status.reconnecting': 'Reconectando ({attempt}/{max})',
+  'status.failed': 'Falha na Conexão',
+  'status.online': 'Transmissão Estável',
+  'status.offline': 'Servidor Offline',
+  'status.dataSaver': 'Economia de dados',
+  'status.saving': 'Economia',
+  'status.highQuality': 'Alta Qualidade',
+  'status.listenersOne': '{count} ouvinte agora',
+  'status.listenersOther': '{count} ouvintes agora',
+  'status.peak': 'Pico: {count} ouvintes',
+
+  'header.lyrics': 'Letras',
+  'header.themes': 'Temas',
+  'header.equalizer': 'Equalizador',
+  'header.timer': 'Timer e Despertador',
+  'header.install': 'Instalar app',
+  'header.station': 'Rádio: {name}',
+  'header.language': 'Idioma',
+
+  'themes.title': 'Escolha o Tema',
+  'themes.auto': 'AUTO',
+  'themes.autoHint': 'Troca automática baseada no horário',
+  'themes.cover': 'CAPA',
+  'themes.coverHint': 'Automático pela capa: cores tiradas da capa da música',
+  'themes.visualizer': 'Visualizador',
+  'theme.neon': 'Neon Vibrante',
+  'theme.neon_soft': 'Neon Soft',
+  'theme.dark': 'Dark',
+  'theme.pastel': 'Pastel',
+  'theme.ocean': 'Oceano',
+  'themes.new': 'Novo',
+  'themes.import': 'Importar',
+  'themes.export': 'Exportar',
+  'themes.edit': 'Editar tema',
+  'themes.delete': 'Excluir tema',
+  'editor.title': 'Editor de Tema',
+  'editor.name': 'Nome',
+  'editor.defaultName': 'Meu tema',
+  'editor.background': 'Fundo',
+  'editor.card': 'Cartão',
+  'editor.accentFrom': 'Destaque 1',
+  'editor.accentTo': 'Destaque 2',
+  'editor.text': 'Texto',
+  'editor.glow': 'Brilho',
+  'editor.save': 'Salvar',
+  'visualizer.bars': 'Barras',
+  'visualizer.mirror': 'Espelhado',
+  'visualizer.circular': 'Circular',
+  'visualizer.waveform': 'Onda',
+  'visualizer.particles': 'Partículas',
+
+  'eq.flat': 'Normal',
+  'eq.pop': 'Pop',
+  'eq.bass': 'Bass Boost',
+  'eq.voice': 'Voz',
+  'eq.night': 'Noite',
+  'audio.compressor': 'Compressor Noturno',
+  'audio.mono': 'Mono',
+
+  'timer.title': 'Timer para Dormir',
+  'timer.endsIn': 'Desliga em {time}',
+  'timer.minutes': '{count} min',
+  'timer.placeholder': 'min',
+  'timer.ok': 'OK',
+  'alarm.title': 'Despertador',
+  'alarm.keepOpen': 'Deixe esta página aberta para o despertador tocar.',
+
+  'stations.title': 'Escolha a Rádio',
+  'language.title': 'Idioma',
+
+  'history.title': 'Tocadas Recentemente',
+  'history.empty': 'Nenhuma música no histórico ainda.',
+  'history.loadMore': 'Carregar mais',
+  'likes.title': 'Minhas Curtidas',
+  'likes.count': 'Minhas Curtidas ({count})',
+  'likes.export': 'Exportar como {format}',
+  'likes.search': 'Buscar artista ou música',
+  'likes.noMatches': 'Nenhuma curtida encontrada.',
+  'likes.empty': 'Toque no coração para guardar as músicas que você curtir.',
+  'charts.title': 'Mais Curtidas',
+  'charts.day': 'Hoje',
+  'charts.week': 'Semana',
+  'charts.month': 'Mês',
+  'charts.empty': 'Nenhum voto neste período ainda.',
+  'lyrics.title': 'Letra da Música',
+  'lyrics.translate': 'TRADUÇÃO',
+  'lyrics.hint': 'Clique no ícone de letra para carregar.',
+  'lyrics.notFound': 'Letra não encontrada para esta música. 😕',
+  'lyrics.error': 'Erro ao carregar a letra. Tente novamente mais tarde. 🛠️',
+  'lyrics.translationEmpty': 'Não consegui traduzir agora. 🎵',
+  'insight.empty': 'Não consegui encontrar curiosidades agora. 🎵',
+  'insight.error': 'Ops! Ocorreu um erro ao buscar curiosidades. 🎸',
+  'footer.partners': 'PARCEIROS',
+
+  'shortcuts.title': 'Atalhos de Teclado',
+  'shortcuts.space': 'Espaço',
+  'shortcuts.playPause': 'Tocar / pausar',
+  'shortcuts.mute': 'Mudo',
+  'shortcuts.volume': 'Volume',
+  'shortcuts.lyrics': 'Letras',
+  'shortcuts.history': 'Tocadas recentemente',
+  'shortcuts.themes': 'Temas',
+  'shortcuts.help': 'Atalhos de teclado',
+  'shortcuts.close': 'Fechar janela',
+
+  'offline.title': 'Sem conexão',
+  'offline.body': 'A rádio volta a tocar assim que a internet voltar.',
+  'offline.lastTrack': 'Última música',
+
+  'toast.tapToPlay': 'Toque no play para começar',
+  'toast.connectFailed': 'Não foi possível conectar',
+  'toast.sleepIn': 'Desligando em {count} min',
+  'toast.goodMorning': 'Bom dia!',
+  'toast.alarmSet': 'Despertador às {time}',
+  'toast.installed': 'App instalado',
+  'toast.installHint': 'Toque em Compartilhar e "Adicionar à Tela de Início"',
+  'toast.tooManyVotes': 'Muitos votos, tente mais tarde',
+  'toast.liked': 'Adicionada às Curtidas',
+  'toast.unliked': 'Removida das Curtidas',
+  'toast.voted': 'Voto registrado',
+  'toast.muted': 'Mudo',
+  'toast.unmuted': 'Som Ativado',
+  'toast.volume': 'Volume: {value}%',
+  'toast.dataSaverOn': 'Economia de Dados Ativada',
+  'toast.dataSaverOff': 'Qualidade Máxima',
+  'toast.autoThemeOn': 'Modo Automático Ativado',
+  'toast.autoThemeOff': 'Modo Automático Desativado',
+  'toast.coverThemeOn': 'Cores pela capa ativadas',
+  'toast.coverThemeOff': 'Cores pela capa desativadas',
+  'toast.tooManyInsights': 'Muitas curiosidades, tente daqui a pouco',
+  'toast.tooManyTranslations': 'Muitas traduções, tente daqui a pouco',
+  'toast.translationFailed': 'Erro ao traduzir letra',
+  'toast.themeSaved': 'Tema salvo',
+  'toast.themesImported': '{count} tema(s) importado(s)',
+  'toast.themeImportFailed': 'Arquivo de temas inválido'
+};
+
+export type Messages = Record<keyof typeof ptBR, string>;
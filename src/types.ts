@@ -0,0 +1,106 @@
+export type Theme = 'neon' | 'neon_soft' | 'dark' | 'pastel' | 'ocean';
+
+// Interface language; also picks the language of AI insights and lyric translations
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+// Upstream metadata formats understood by the server adapters. `icy` reads StreamTitle from the
+// audio stream itself (its url is a stream URL), which is in step with what listeners hear.
+export type MetadataSourceType = 'shoutcast-v1' | 'shoutcast-v2' | 'icecast' | 'centova' | 'icy';
+
+export interface MetadataSource {
+  type: MetadataSourceType;
+  url: string;
+  // Icecast only: which mount to read when the server hosts several
+  mount?: string;
+}
+
+export interface Station {
+  id: string;
+  name: string;
+  // Stream URLs in order of preference
+  streams: string[];
+  // Multi-bitrate HLS manifest, preferred over `streams` when the browser can play it
+  hls?: string;
+  // Progressive mounts at a lower bitrate, used in data saver mode
+  lowBitrateStreams?: string[];
+  // Metadata sources tried in order by /api/radio-stats
+  metadata: MetadataSource[];
+  logo?: string;
+  theme: Theme;
+}
+
+export interface Track {
+  artist: string;
+  title: string;
+  cover?: string;
+}
+
+// Normalized now-playing information, whatever the upstream format
+export interface NowPlaying extends Track {
+  station: string;
+  // Raw "Artist - Title" string as announced by the upstream
+  songtitle: string;
+  listeners?: number;
+  peakListeners?: number;
+  maxListeners?: number;
+  // Stream bitrate in kbps
+  bitrate?: number;
+  genre?: string;
+  // Whether a source is connected upstream; undefined when the format doesn't say
+  online?: boolean;
+  // Previously played tracks, most recent first
+  history: Track[];
+  source: MetadataSourceType;
+  // When the server first saw this track (ms since epoch)
+  startedAt?: number;
+}
+
+// A track in the listener's liked-songs library
+export interface LikedTrack extends Track {
+  likedAt: number;
+}
+
+// A track as recorded in the server's play history
+export interface PlayedTrack extends Track {
+  station: string;
+  songtitle: string;
+  startedAt: number;
+}
+
+// 1 = like, -1 = dislike, 0 = no vote
+export type Vote = 1 | -1 | 0;
+
+export interface VoteTally {
+  likes: number;
+  dislikes: number;
+  // This device's vote
+  mine: Vote;
+}
+
+export type ChartPeriod = 'day' | 'week' | 'month';
+
+export interface ChartEntry extends Track {
+  likes: number;
+  dislikes: number;
+  // likes minus dislikes
+  score: number;
+}
+
+export interface HistoryPage {
+  items: PlayedTrack[];
+  // Pass as `to` to fetch the next (older) page; null when there is nothing older
+  next: number | null;
+}
+
+export interface LyricLine {
+  // Milliseconds from the start of the track
+  time: number;
+  text: string;
+}
+
+export interface LyricsResult {
+  lyrics: string;
+  // Present when time-coded (LRC) lyrics were found
+  synced?: LyricLine[];
+  source: string;
+}
@@ -1,15 +1,48 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, type Plugin} from 'vite';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+// Writes the files the page needs to start (the entry chunk, its static imports and their CSS and
+// assets) into the copied public/sw.js, so the service worker precaches them on install and every
+// deploy ships a new worker version. Lazily imported chunks such as hls.js are left to the runtime
+// cache, so listeners who never need them never download them.
+const serviceWorkerManifest = (): Plugin => ({
+  name: 'service-worker-manifest',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const outDir = options.dir ?? 'dist';
+    const worker = path.join(outDir, 'sw.js');
+    if (!fs.existsSync(worker)) return;
+
+    const files = new Set<string>();
+    const addChunk = (file: string) => {
+      const chunk = bundle[file];
+      if (files.has(file) || chunk?.type !== 'chunk') return;
+      files.add(file);
+      chunk.viteMetadata?.importedCss.forEach((css) => files.add(css));
+      chunk.viteMetadata?.importedAssets.forEach((asset) => files.add(asset));
+      chunk.imports.forEach(addChunk);
+    };
+    for (const chunk of Object.values(bundle)) {
+      if (chunk.type === 'chunk' && chunk.isEntry) addChunk(chunk.fileName);
+    }
+
+    const assets = [...files].sort();
+    const version = crypto.createHash('sha1').update(assets.join('\n')).digest('hex').slice(0, 10);
+    const source = fs.readFileSync(worker, 'utf8');
+    fs.writeFileSync(
+      worker,
+      source.replace(/\/\* build manifest \*\/ [^;]*/, JSON.stringify({ version, assets }))
+    );
+  },
+});
+
+export default defineConfig(() => {
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [react(), tailwindcss(), serviceWorkerManifest()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),